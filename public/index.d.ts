@@ -2,8 +2,52 @@ export = PW;
 export as namespace PW;
 
 declare namespace PW {
+  /**
+   * Creates and initializes Pushwoosh instance without global window.Pushwoosh.
+   * Optional modules are enabled by plugins.
+   *
+   *  import {createPushwoosh, subscribeWidgetPlugin} from 'web-push-notifications';
+   *
+   *  const pw = await createPushwoosh({
+   *    applicationCode: 'XXXXX-XXXXX',
+   *    plugins: [subscribeWidgetPlugin]
+   *  });
+   *  await pw.api.setTags({'Name': 'value'});
+   *
+   * @returns {Promise<Pushwoosh>} initialized instance
+   * @throws {PushwooshInitError}
+   */
+  function createPushwoosh(config: PushwooshConfig): Promise<Pushwoosh>;
+
+  interface PushwooshConfig extends InitParams, PushwooshOptions {
+    plugins?: Array<PushwooshPlugin>;
+  }
+
+  /**
+   * Optional module of Pushwoosh instance, initialized after SDK
+   */
+  interface PushwooshPlugin {
+    name: string;
+    isAvailableWithoutNotifications?: boolean;
+    init(pw: Pushwoosh, initParams: InitParams): void | Promise<void>;
+  }
+
+  const subscribeWidgetPlugin: PushwooshPlugin;
+  const inboxWidgetPlugin: PushwooshPlugin;
+  const subscribePopupPlugin: PushwooshPlugin;
+  const facebookPlugin: PushwooshPlugin;
+  const inAppsPlugin: PushwooshPlugin;
+
   class Pushwoosh {
-    constructor();
+    /**
+     * Named instance keeps its storage keys, params, inbox and events separately,
+     * so several applications can be initialized on the same page.
+     * Instances share the service worker, pushes are routed by "application" field of the payload.
+     *
+     *  const brandA = new Pushwoosh({namespace: 'brandA'});
+     *  brandA.push(['init', {applicationCode: 'XXXXX-XXXXX'}]);
+     */
+    constructor(options?: PushwooshOptions);
 
     /**
      * Method that puts the stored error/info messages to browser console.
@@ -11,6 +55,78 @@ declare namespace PW {
      */
     debug: any;
 
+    /**
+     * Pushwoosh API methods of the instance. Available after initialization.
+     */
+    api: API;
+
+    /**
+     * Tags of the device with local copy of the last known values.
+     *
+     *  await Pushwoosh.tags.set({'Name': 'John'});  // sent only if changed
+     *  await Pushwoosh.tags.increment('Purchases');
+     *  await Pushwoosh.tags.append('Interests', ['sport']);
+     */
+    tags: Tags;
+
+    /**
+     * Adds optional module. Plugins are initialized after SDK initialization.
+     * @returns {Pushwoosh}
+     */
+    use(plugin: PushwooshPlugin): this;
+
+    /**
+     * Initiates PW services and plugins.
+     * Awaitable alternative of push(['init', params]).
+     *
+     *  try {
+     *    await Pushwoosh.init({applicationCode: 'XXXXX-XXXXX'});
+     *  } catch (error) {
+     *    if (error.reason === 'unsupported_browser') {
+     *      // hide subscription UI
+     *    }
+     *  }
+     *
+     * @returns {Promise<void>}
+     * @throws {PushwooshInitError}
+     */
+    init(initParams: InitParams): Promise<void>;
+
+    /**
+     * Resolves with API when SDK is ready, rejects if initialization has failed.
+     * Awaitable alternative of push(['onReady', callback]).
+     * @returns {Promise<API>}
+     * @throws {PushwooshInitError}
+     */
+    whenReady(): Promise<API>;
+
+    /**
+     * Alias of whenReady().
+     * @returns {Promise<API>}
+     * @throws {PushwooshInitError}
+     */
+    ready(): Promise<API>;
+
+    /**
+     * Is SDK initialized, it was the "ready" field before ready() method
+     */
+    readonly isReady: boolean;
+
+    /**
+     * Grants consent to Pushwoosh communication and runs initialization delayed by consentRequired mode.
+     * Consent is stored, so it is not required on next visits.
+     * Emits onConsentChange event with ConsentState.
+     * @returns {Promise<void>}
+     * @throws {PushwooshInitError}
+     */
+    grantConsent(): Promise<void>;
+
+    /**
+     * Returns consent state and time of granting.
+     * @returns {ConsentState}
+     */
+    getConsent(): ConsentState;
+
     /**
      * Polymorph PW method.
      * Can get an array in the format of [string, params | callback] or a function.
@@ -33,8 +149,24 @@ declare namespace PW {
      *    // https://docs.pushwoosh.com/docs/web-push-sdk-30#section-integration
      *  }]);
      *
+     *  // with api interceptor:
+     *  Pushwoosh.push(['addApiInterceptor', async function(context, next) {
+     *    context.headers['X-Request-Id'] = '...';
+     *    await next();
+     *  }]);
+     *
+     *  // callbacks and interceptors are removed by returned function:
+     *  const dispose = Pushwoosh.push(['onPushDelivery', callback]);
+     *  dispose();
+     *
+     */
+    push(input: EventHandler | [EventName, EventHandler] | ['addApiInterceptor', ApiInterceptor]): Disposer;
+    push(input: ['init', InitParams]): void;
+
+    /**
+     * Removes event callback added by push([eventName, callback]).
      */
-    push(input: EventHandler | [EventName, EventHandler] | ['init', InitParams]): void;
+    off(event: EventName, handler: EventHandler): void;
 
     /**
      * Checks device's subscription status
@@ -79,10 +211,161 @@ declare namespace PW {
      * @returns {Promise<void>}
      */
     unsubscribe(): Promise<void>;
+
+    /**
+     * Method returns count of delivery and click statistics
+     * that are stored while device is offline and still not sent.
+     * @returns {Promise<number>}
+     */
+    getPendingStatisticsCount(): Promise<number>;
+
+    /**
+     * Collects local data of the device and its tags from Pushwoosh for GDPR subject-access request.
+     * Push subscription credentials are redacted.
+     *
+     *  const data = await Pushwoosh.exportDeviceData();
+     *  const blob = new Blob([JSON.stringify(data, null, 2)], {type: 'application/json'});
+     *
+     * @returns {Promise<DeviceDataExport>}
+     */
+    exportDeviceData(): Promise<DeviceDataExport>;
+
+    /**
+     * Shows notification from service worker at the time without server push.
+     * Notification is stored in IndexedDB, so it is shown after page reload too.
+     * Service worker waits for notification due within 4 minutes only,
+     * later one is shown on the next visit of the site after its time
+     * and is dropped if the site is not visited within its ttl, 24 hours by default.
+     *
+     *  const id = await Pushwoosh.scheduleLocalNotification({title: 'Cart', body: 'Complete your order', url: '/cart', at: Date.now() + 60000});
+     *
+     * @returns {Promise<string>} id of the scheduled notification
+     */
+    scheduleLocalNotification(params: LocalNotificationParams): Promise<string>;
+
+    /**
+     * Cancels local notification which is not shown yet
+     * @returns {Promise<void>}
+     */
+    cancelLocalNotification(id: string): Promise<void>;
+
+    /**
+     * Returns browser to the first visit state, e.g. on logout on shared computer:
+     * unregisters device, removes push subscription, IndexedDB and localStorage data of the instance.
+     * Push subscription, service worker and shared stores are kept for named instance.
+     * @returns {Promise<void>}
+     */
+    reset(params?: ResetParams): Promise<void>;
+
+    /**
+     * Associates device with the user.
+     * Inbox messages and in-apps of the previous user are removed, onUserChanged event is emitted.
+     * @param {string} userId
+     * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
+     */
+    login(userId: string): Promise<void>;
+
+    /**
+     * Associates device with the default user, hwid is used as userId.
+     * Inbox messages and in-apps of the previous user are removed, onUserChanged event is emitted.
+     * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
+     */
+    logout(): Promise<void>;
+  }
+
+  interface LocalNotificationParams {
+    title: string;
+    body: string;
+    /**
+     * Time of showing, ms timestamp or date
+     */
+    at: number | Date;
+    /**
+     * Ms after the time of showing, 24 hours by default.
+     * Notification is shown when any page of the site is opened,
+     * overdue notification is dropped if the site is not visited within this time.
+     */
+    ttl?: number;
+    /**
+     * Opened on click, "/" by default
+     */
+    url?: string;
+    icon?: string;
+    image?: string;
+    customData?: { [key: string]: any };
+    /**
+     * Put message to inbox on showing
+     */
+    inbox?: boolean;
+  }
+
+  type NotificationButtonType = 'url' | 'postEvent' | 'setTags' | 'dismiss' | 'snooze' | 'markInboxRead';
+
+  /**
+   * Button of push notification payload
+   */
+  interface NotificationButton {
+    title: string;
+    /**
+     * "url" by default, other types run in service worker without opening window
+     */
+    type?: NotificationButtonType;
+    url?: string;
+    /**
+     * postEvent event name and attributes
+     */
+    event?: string;
+    attributes?: { [key: string]: any };
+    /**
+     * setTags tags
+     */
+    tags?: { [key: string]: any };
+    /**
+     * Snooze delay, ms, 1 minute by default.
+     * Service worker waits up to 4 minutes, notification snoozed for longer time
+     * is shown on the next visit of the site and is dropped if the site is not visited within 24 hours after its time.
+     */
+    delay?: number;
+  }
+
+  interface ResetParams {
+    /**
+     * Unregister service worker, otherwise only push subscription is removed
+     */
+    unregisterWorker?: boolean;
+    /**
+     * Keep consent granted for consentRequired init mode,
+     * otherwise granted consent is revoked with onConsentChange event
+     */
+    keepConsent?: boolean;
+  }
+
+  interface DeviceDataExport {
+    exportDate: string;
+    sdkVersion: string;
+    keyValue: { [key: string]: any };
+    inboxMessages: Array<any>;
+    messages: Array<any>;
+    log: Array<any>;
+    /**
+     * null if tags can't be received from Pushwoosh
+     */
+    tags: { [key: string]: any } | null;
+  }
+
+  interface PushwooshOptions {
+    namespace?: string;
   }
 
   type EventHandler = (api: API, params?: any) => void;
 
+  /**
+   * Removes added callback
+   */
+  type Disposer = () => void;
+
   type EventName = 'onReady'
     | 'onSubscribe'
     | 'onUnsubscribe'
@@ -94,12 +377,18 @@ declare namespace PW {
     | 'onPushDelivery'
     | 'onNotificationClose'
     | 'onSWInitError'
+    | 'onInitError'
+    | 'onConsentChange'
+    | 'onUserChanged'
+    | 'onSessionStart'
+    | 'onSessionEnd'
     | 'onChangeCommunicationEnabled';
 
   interface API {
     /**
      * Calls API method applicationOpen with device parameters.
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     applicationOpen(): Promise<void>;
 
@@ -108,6 +397,7 @@ declare namespace PW {
      * @param {string} methodName
      * @param params
      * @returns {Promise<any>}
+     * @throws {PushwooshApiError}
      */
     callAPI(methodName: string, params?: any): Promise<any>;
 
@@ -115,6 +405,7 @@ declare namespace PW {
      * Calls API method getTags.
      * Retrieves a list of Tags with corresponding values for the device.
      * @returns {{[p: string]: any}}
+     * @throws {PushwooshApiError}
      */
     getTags(): { [key: string]: any };
 
@@ -123,6 +414,7 @@ declare namespace PW {
      * Registers push delivery event for the device.
      * @param {string} hash
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     messageDeliveryEvent(hash: string): Promise<void>;
 
@@ -130,9 +422,11 @@ declare namespace PW {
      * Calls API method postEvent.
      * Calls the event within the particular application.
      * Event name is humanized, and should match the event name in Pushwoosh Control Panel.
+     * Opened message is attached as "msgHash" attribute unless it is passed by caller.
      * @param {string} eventName
      * @param {{[p: string]: any}} params
      * @returns {Promise<void>}
+     * @throws {PushwooshEventError | PushwooshApiError}
      */
     postEvent(eventName: string, params: { [key: string]: any }): Promise<void>;
 
@@ -141,6 +435,7 @@ declare namespace PW {
      * Registers a push open event
      * @param {string} hash
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     pushStat(hash: string): Promise<void>;
 
@@ -148,6 +443,7 @@ declare namespace PW {
      * Calls API method registerDevice with device parameters.
      * Saves the registration status to localStorage.
      * @returns {Promise<void>}
+     * @throws {PushwooshCommunicationDisabledError | PushwooshApiError}
      */
     registerDevice(): Promise<void>;
 
@@ -156,6 +452,7 @@ declare namespace PW {
      * Sets new user data to IndexedDB if needed.
      * @param {string} userId
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     registerUser(userId: string): Promise<void>;
 
@@ -164,6 +461,7 @@ declare namespace PW {
      * Sets Tag values for the device.
      * @param {{[p: string]: any}} tags
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     setTags(tags: { [key: string]: any }): Promise<void>;
 
@@ -171,6 +469,7 @@ declare namespace PW {
      * Calls API method unregisterDevice.
      * Removes the registration status from localStorage.
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     unregisterDevice(): Promise<void>;
 
@@ -179,6 +478,7 @@ declare namespace PW {
      * device will be registered/unregistered from all communication channels.
      * @param {boolean} isEnabled
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     setCommunicationEnabled(isEnabled: boolean): Promise<void>;
 
@@ -191,6 +491,7 @@ declare namespace PW {
     /**
      * Send "GDPRDelete" postEvent and remove all device device data from Pushwoosh.
      * @returns {Promise<void>}
+     * @throws {PushwooshApiError}
      */
     removeAllDeviceData(): Promise<void>;
 
@@ -227,6 +528,384 @@ declare namespace PW {
     inboxWidget?: InboxWidget;
     tags?: { [key: string]: any };
     userId?: string;
+    /**
+     * Transport of API calls of this instance, FetchTransport by default.
+     * Service worker always sends its calls by the default transport.
+     */
+    transport?: Transport;
+    batching?: BatchingParams;
+    /**
+     * Don't send requests, write IndexedDB and register service worker until grantConsent() call
+     */
+    consentRequired?: boolean;
+    /**
+     * Types of the known tags, Pushwoosh.tags rejects other tags and values of wrong type
+     */
+    tagsSchema?: TagsSchema;
+    /**
+     * Known events and their attributes, postEvent checks events by it
+     */
+    eventsSchema?: EventsSchema;
+    /**
+     * "reject" fails postEvent with PushwooshEventError, use it in development.
+     * "warn" sends event with console warning. Default "warn".
+     */
+    eventsValidation?: 'reject' | 'warn';
+    /**
+     * How postEvent is linked to the opened push, inbox message or clicked in-app by "msgHash" attribute
+     */
+    goalAttribution?: GoalAttributionParams;
+    /**
+     * Session tracking and applicationOpen policy
+     */
+    session?: SessionParams;
+    /**
+     * Default window choice on notification click, "click_routing" field of the message overrides it
+     */
+    clickRouting?: ClickRoutingParams;
+    /**
+     * Default grouping of notifications by "thread_id" field of the message or its campaign,
+     * "group_mode" field of the message overrides the mode
+     */
+    notificationGrouping?: NotificationGroupingParams;
+  }
+
+  interface NotificationGroupingParams {
+    /**
+     * "replace" shows the latest notification of the thread only,
+     * "summary" replaces notifications of the thread by summary one. Default "none"
+     */
+    mode?: 'none' | 'replace' | 'summary';
+    /**
+     * Body of summary notification, {count} and {title} are replaced. Default "{count} new messages from {title}"
+     */
+    summary?: string;
+  }
+
+  interface ClickRoutingParams {
+    /**
+     * "exact" focuses window with the same url, otherwise opens new one.
+     * "focusAny" focuses and navigates any window of the site,
+     * "prefix" and "regex" focus and navigate window which url matches pattern.
+     * "postMessage" focuses any window without navigation, page handles click by onNotificationClick.
+     * Default "exact"
+     */
+    mode?: 'exact' | 'focusAny' | 'prefix' | 'regex' | 'postMessage';
+    /**
+     * Url prefix for "prefix" mode, relative to site origin. Regular expression for "regex" mode
+     */
+    pattern?: string;
+  }
+
+  interface SessionParams {
+    /**
+     * Time without user activity in all tabs ending the session, ms. Default 30 minutes
+     */
+    idleTimeout?: number;
+    /**
+     * "interval" sends applicationOpen no more than once per applicationOpenInterval,
+     * "session" sends it on session start, "never" doesn't send it. Default "interval"
+     */
+    applicationOpen?: 'interval' | 'session' | 'never';
+    /**
+     * Default 1 hour, ms
+     */
+    applicationOpenInterval?: number;
+  }
+
+  interface GoalAttributionParams {
+    /**
+     * Message opened last or first within the window, default "last_touch"
+     */
+    model?: 'last_touch' | 'first_touch';
+    /**
+     * Attribution window, ms. Default 24 hours
+     */
+    window?: number;
+    /**
+     * Opens taken into account, default all
+     */
+    sources?: Array<'push' | 'inbox' | 'inapp'>;
+  }
+
+  type TagType = 'integer' | 'string' | 'list' | 'boolean' | 'date' | 'price' | 'version';
+
+  interface TagsSchema {
+    [name: string]: TagType;
+  }
+
+  interface Tags {
+    /**
+     * Returns tags of the device.
+     * @param {boolean} refresh - request tags from Pushwoosh even if they are known locally
+     * @throws {PushwooshApiError}
+     */
+    get(refresh?: boolean): Promise<{ [name: string]: any }>;
+
+    /**
+     * Sends tags which values differ from the last known ones. Null value removes tag.
+     * @returns {Promise<{[name: string]: any}>} sent tags
+     * @throws {PushwooshTagError | PushwooshApiError}
+     */
+    set(tags: { [name: string]: any }): Promise<{ [name: string]: any }>;
+
+    /**
+     * Adds value to the integer tag on the server side.
+     * @throws {PushwooshTagError | PushwooshApiError}
+     */
+    increment(name: string, value?: number): Promise<void>;
+
+    /**
+     * Adds values to the list tag on the server side.
+     * @throws {PushwooshTagError | PushwooshApiError}
+     */
+    append(name: string, values: Array<string>): Promise<void>;
+
+    /**
+     * Removes values from the list tag on the server side.
+     * @throws {PushwooshTagError | PushwooshApiError}
+     */
+    remove(name: string, values: Array<string>): Promise<void>;
+  }
+
+  /**
+   * Tag value doesn't match tagsSchema init param
+   */
+  class PushwooshTagError extends Error {
+    tagName: string;
+  }
+
+  type EventAttributeType = 'integer' | 'string' | 'list' | 'boolean' | 'date' | 'price';
+
+  interface EventAttributeSchema {
+    type: EventAttributeType;
+    required?: boolean;
+  }
+
+  interface EventSchema {
+    attributes?: { [name: string]: EventAttributeSchema };
+  }
+
+  interface EventsSchema {
+    [event: string]: EventSchema;
+  }
+
+  /**
+   * Keeps literal types of the schema, so API can be typed by it.
+   *
+   *  const eventsSchema = defineEventsSchema({
+   *    Purchase: {attributes: {amount: {type: 'price', required: true}, sku: {type: 'string'}}}
+   *  });
+   *  const pw = await createPushwoosh({applicationCode: 'XXXXX-XXXXX', eventsSchema});
+   *  const api: TypedAPI<typeof eventsSchema> = pw.api;
+   *  api.postEvent('Purchase', {amount: 9.99});
+   */
+  function defineEventsSchema<S extends EventsSchema>(schema: S): S;
+
+  type EventAttributeValue<T extends EventAttributeType> =
+    T extends 'integer' | 'price' ? number
+    : T extends 'boolean' ? boolean
+    : T extends 'list' ? Array<string>
+    : T extends 'date' ? string | Date
+    : string;
+
+  type EventAttributesSchemaOf<E extends EventSchema> =
+    E['attributes'] extends { [name: string]: EventAttributeSchema } ? E['attributes'] : {};
+
+  type RequiredEventAttributeNames<A> = {
+    [K in keyof A]: A[K] extends { required: true } ? K : never
+  }[keyof A];
+
+  type OptionalEventAttributeNames<A> = Exclude<keyof A, RequiredEventAttributeNames<A>>;
+
+  type EventAttributes<E extends EventSchema, A = EventAttributesSchemaOf<E>> = {
+    [K in RequiredEventAttributeNames<A>]: A[K] extends EventAttributeSchema ? EventAttributeValue<A[K]['type']> : never
+  } & {
+    [K in OptionalEventAttributeNames<A>]?: A[K] extends EventAttributeSchema ? EventAttributeValue<A[K]['type']> : never
+  };
+
+  /**
+   * API with postEvent typed by events schema
+   */
+  interface TypedAPI<S extends EventsSchema> extends Pick<API, Exclude<keyof API, 'postEvent'>> {
+    /**
+     * @throws {PushwooshEventError | PushwooshApiError}
+     */
+    postEvent<E extends keyof S & string>(eventName: E, params: EventAttributes<S[E]>): Promise<void>;
+  }
+
+  /**
+   * Event doesn't match eventsSchema init param
+   */
+  class PushwooshEventError extends Error {
+    event: string;
+    problems: Array<string>;
+  }
+
+  interface ConsentState {
+    granted: boolean;
+    /**
+     * Time of granting, ms
+     */
+    timestamp: number | null;
+  }
+
+  /**
+   * Batching of setTags and postEvent calls.
+   * Calls made within "delay" ms are sent at its end: tags are merged key by key and sent by one setTags call.
+   * Pushwoosh API has no method for several events, so every event is still sent by its own postEvent call:
+   * batching reduces count of setTags requests only and delays events.
+   * Not sent calls are delivered by navigator.sendBeacon on pagehide,
+   * such calls resolve with undefined as beacon response is not available.
+   * Beacon is not used if the instance has custom transport or api interceptors, calls are sent through them.
+   */
+  interface BatchingParams {
+    enable?: boolean;  // default false
+    delay?: number;  // default 1000 ms
+    maxSize?: number;  // default 50 events, collected events are sent immediately when reached
+  }
+
+  /**
+   * Request to Pushwoosh JSON API.
+   */
+  interface TransportRequest {
+    methodName: string;
+    url: string;
+    body: { request: any };
+    headers?: { [key: string]: string };
+  }
+
+  /**
+   * Response of Pushwoosh JSON API.
+   */
+  interface TransportResponse {
+    status: number;
+    statusText?: string;
+    body?: {
+      status_code: number;
+      status_message: string;
+      response?: any;
+      base_url?: string;
+    };
+  }
+
+  /**
+   * Sends requests to Pushwoosh JSON API.
+   * Should reject only on network failures.
+   */
+  interface Transport {
+    send(request: TransportRequest): Promise<TransportResponse>;
+  }
+
+  type PushwooshInitErrorReason = 'unsupported_browser'
+    | 'missing_application_code'
+    | 'missing_safari_website_push_id'
+    | 'service_worker_registration_failed'
+    | 'missing_sender_id'
+    | 'initialization_failed';
+
+  /**
+   * Reason of failed initialization. Also passed to onInitError event callback.
+   */
+  class PushwooshInitError extends Error {
+    reason: PushwooshInitErrorReason;
+    cause: any;
+  }
+
+  type PushwooshApiErrorCode = 'network'
+    | 'http_status'
+    | 'status_code'
+    | 'data_removed'
+    | 'communication_disabled';
+
+  /**
+   * Base error of Pushwoosh API calls. API methods reject with its subclasses.
+   * Failed calls of statistics, events, tags and user methods are re-sent later
+   * if error is retryable, but the returned promise is rejected anyway.
+   */
+  class PushwooshApiError extends Error {
+    code: PushwooshApiErrorCode;
+    methodName: string;
+    isRetryable: boolean;
+  }
+
+  /**
+   * Request has not reached Pushwoosh: offline, DNS, CORS, aborted etc.
+   */
+  class PushwooshNetworkError extends PushwooshApiError {
+    cause: any;
+  }
+
+  /**
+   * Pushwoosh responded with HTTP status other than 200
+   */
+  class PushwooshHttpError extends PushwooshApiError {
+    status: number;
+  }
+
+  /**
+   * Pushwoosh responded with status_code other than 200
+   */
+  class PushwooshStatusCodeError extends PushwooshApiError {
+    statusCode: number;
+    statusMessage: string;
+  }
+
+  /**
+   * Device data has been removed by removeAllDeviceData
+   */
+  class PushwooshDataRemovedError extends PushwooshApiError {}
+
+  /**
+   * Communication is disabled by setCommunicationEnabled(false)
+   */
+  class PushwooshCommunicationDisabledError extends PushwooshApiError {}
+
+  /**
+   * Context of Pushwoosh API call passed through interceptors.
+   * Request and headers can be changed before next() call, response is available after it.
+   */
+  interface ApiInterceptorContext {
+    methodName: string;
+    request: any;
+    headers: { [key: string]: string };
+    response?: any;
+  }
+
+  /**
+   * Middleware for Pushwoosh API calls.
+   * Interceptors run on the page only and for the instance they are added to,
+   * calls sent by the service worker are not intercepted.
+   * Rejection of the returned promise fails the call.
+   */
+  type ApiInterceptor = (context: ApiInterceptorContext, next: () => Promise<void>) => Promise<void> | void;
+
+  /**
+   * Transport based on Fetch API. Used by default.
+   */
+  class FetchTransport implements Transport {
+    send(request: TransportRequest): Promise<TransportResponse>;
+  }
+
+  /**
+   * Transport based on XMLHttpRequest.
+   */
+  class XHRTransport implements Transport {
+    send(request: TransportRequest): Promise<TransportResponse>;
+  }
+
+  /**
+   * In-memory transport for tests of API calls, inbox and in-apps. Never touches the network.
+   * Responses are OK with null response if they are not set.
+   */
+  class MockTransport implements Transport {
+    requests: TransportRequest[];
+    setResponse(methodName: string, response: any): void;
+    setStatusCode(methodName: string, statusCode: number, statusMessage?: string): void;
+    setHttpStatus(methodName: string, status: number): void;
+    setNetworkError(methodName: string): void;
+    reset(): void;
+    send(request: TransportRequest): Promise<TransportResponse>;
   }
 
   /**
@@ -325,6 +1004,36 @@ declare namespace PW {
     customData?: { [key: string]: any };
   }
 
+  /**
+   * Payload for onUserChanged event callback.
+   *
+   * Pushwoosh.push['onUserChanged', (api: PW.API, payload: PW.onUserChangedPayload) => {}]
+   */
+  interface onUserChangedPayload {
+    userId: string;
+    previousUserId: string;
+  }
+
+  /**
+   * Payload for onSessionStart event callback.
+   *
+   * Pushwoosh.push['onSessionStart', (api: PW.API, payload: PW.onSessionStartPayload) => {}]
+   */
+  interface onSessionStartPayload {
+    sessionId: string;
+    startedAt: number;
+  }
+
+  /**
+   * Payload for onSessionEnd event callback. Session ends at the last user activity.
+   *
+   * Pushwoosh.push['onSessionEnd', (api: PW.API, payload: PW.onSessionEndPayload) => {}]
+   */
+  interface onSessionEndPayload extends onSessionStartPayload {
+    endedAt: number;
+    duration: number;
+  }
+
   /**
    * Payload for onNotificationClose event callback.
    *
@@ -0,0 +1,43 @@
+// Completes ES module build of tsc: replaces webpack defines and inlines html and css assets,
+// so bundlers of applications don't need any loaders for SDK
+const path = require('path');
+const fs = require('fs');
+const {version} = require('../package.json');
+
+
+const srcPath = path.resolve(__dirname, '..', 'src');
+const esmPath = path.resolve(__dirname, '..', 'lib', 'esm');
+
+const importAssetRegExp = /import (\w+) from '(\.[^']+\.html)';/g;
+const requireAssetRegExp = /require\('(\.[^']+\.css)'\)/g;
+
+function readAsset(filePath, assetPath) {
+  const sourceDir = path.dirname(path.resolve(srcPath, path.relative(esmPath, filePath)));
+  return JSON.stringify(fs.readFileSync(path.resolve(sourceDir, assetPath), 'utf8'));
+}
+
+function processFile(filePath) {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const result = content
+    .replace(/__VERSION__/g, JSON.stringify(version))
+    .replace(importAssetRegExp, (match, name, assetPath) => `var ${name} = ${readAsset(filePath, assetPath)};`)
+    .replace(requireAssetRegExp, (match, assetPath) => readAsset(filePath, assetPath));
+
+  if (result !== content) {
+    fs.writeFileSync(filePath, result);
+  }
+}
+
+function processDir(dirPath) {
+  fs.readdirSync(dirPath).forEach((name) => {
+    const itemPath = path.join(dirPath, name);
+    if (fs.statSync(itemPath).isDirectory()) {
+      processDir(itemPath);
+    } else if (name.endsWith('.js')) {
+      processFile(itemPath);
+    }
+  });
+}
+
+processDir(esmPath);
+console.log('ES module build is completed in lib/esm');
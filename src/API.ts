@@ -15,32 +15,52 @@ import {
 import {
   getVersion,
   validateParams,
-  sendInternalPostEvent
+  sendInternalPostEvent,
+  getNamespacedKey
 } from './functions';
 import platformChecker from './modules/PlatformChecker';
 
-import {keyValue} from './storage';
-import Logger, {logAndThrowError} from './logger';
+import {TKeyValue} from './storage';
+import Logger from './logger';
 import doApiXHR from './modules/api/apiCall';
 import Params from './modules/data/Params';
 
 import { EventBus } from './modules/EventBus/EventBus';
+import { ApiQueue } from './modules/ApiQueue/ApiQueue';
+import { ApiBatcher } from './modules/ApiBatcher/ApiBatcher';
+import { EventsValidator } from './modules/EventsValidator/EventsValidator';
+import { GoalAttribution } from './modules/GoalAttribution/GoalAttribution';
+import { GOAL_ATTRIBUTION_ATTRIBUTE } from './modules/GoalAttribution/GoalAttribution.constants';
+import {
+  PushwooshDataRemovedError,
+  PushwooshCommunicationDisabledError,
+  isRetryableApiError
+} from './modules/api/PushwooshApiError';
 
 
 export default class PushwooshAPI {
   private timezone: number = -(new Date).getTimezoneOffset() * 60;
-  private readonly doPushwooshApiMethod: TDoPushwooshMethod;
+  private readonly doPushwooshApiMethod: typeof doApiXHR;
   private readonly paramsModule: Params;
+  private readonly store: TKeyValue;
   private readonly eventBus: EventBus;
+  private readonly apiQueue: ApiQueue;
+  private batcher?: ApiBatcher;
+  private eventsValidator?: EventsValidator;
+  private readonly goalAttribution: GoalAttribution;
 
   constructor(
     private apiParams: TPWAPIParams,
-    public lastOpenMessage: TPWLastOpenMessage,
-    paramsModule: Params = new Params()
+    goalAttributionParams: IGoalAttributionParams = {},
+    paramsModule: Params = new Params(),
+    apiQueue: ApiQueue = ApiQueue.getInstance()
   ) {
     this.doPushwooshApiMethod = doApiXHR;
     this.paramsModule = paramsModule;
+    this.store = paramsModule.store;
     this.eventBus = EventBus.getInstance();
+    this.apiQueue = apiQueue;
+    this.goalAttribution = new GoalAttribution(this.store, goalAttributionParams);
   }
 
   // TODO will be deprecated in next minor version
@@ -66,16 +86,39 @@ export default class PushwooshAPI {
     const {
       [KEY_API_PARAMS]: apiParams,
       [KEY_INIT_PARAMS]: initParams,
-    } = await keyValue.getAll();
+    } = await this.store.getAll();
 
     return {...apiParams, ...initParams};
   }
 
-  async callAPI(methodName: string, methodParams?: any) {
+  /**
+   * Group setTags and postEvent calls made within the time window
+   * @param batcher - shared by api instances of Pushwoosh instance
+   */
+  enableBatching(batcher: ApiBatcher) {
+    this.batcher = batcher;
+  }
+
+  /**
+   * Check postEvent calls by the events schema
+   * @param schema
+   * @param mode
+   */
+  enableEventsValidation(schema: IEventsSchema, mode?: TEventsValidationMode) {
+    this.eventsValidator = new EventsValidator(schema, mode);
+  }
+
+  /**
+   * Params must be sent with every api call.
+   * Returns undefined if device is not registered yet.
+   * @param methodParams
+   * @throws {PushwooshDataRemovedError}
+   */
+  async getRequestParams(methodParams?: any): Promise<{[key: string]: any} | undefined> {
     const params: IPWParams = await this.getParams();
 
     // can't call any api methods if device data is removed
-    const dataIsRemoved = await keyValue.get(KEY_DEVICE_DATA_REMOVED);
+    const dataIsRemoved = await this.store.get(KEY_DEVICE_DATA_REMOVED);
 
     if (dataIsRemoved) {
       await sendFatalLogToRemoteServer({
@@ -86,8 +129,9 @@ export default class PushwooshAPI {
         deviceType: params.deviceType
       });
 
-      Logger.write('error', 'Device data has been removed');
-      return;
+      const error = new PushwooshDataRemovedError('callAPI');
+      Logger.write('error', error);
+      throw error;
     }
 
     const {
@@ -102,26 +146,51 @@ export default class PushwooshAPI {
 
     const customUserId = methodParams && methodParams.userId;
 
-    const mustBeParams: any = {
+    return {
       hwid,
       application: applicationCode,
       userId: customUserId || userId || hwid,
       device_type: params.deviceType,
       v: getVersion()
     };
+  }
 
-    return this.doPushwooshApiMethod(methodName, {
+  /**
+   * Call Pushwoosh API method.
+   * Failed calls of retryable methods are stored to the api queue
+   * if error is temporary, but the returned promise is rejected anyway.
+   * @param methodName
+   * @param methodParams
+   * @throws {PushwooshApiError}
+   */
+  async callAPI(methodName: string, methodParams?: any) {
+    const mustBeParams = await this.getRequestParams(methodParams);
+
+    if (!mustBeParams) {
+      return;
+    }
+
+    const request = {
       ...methodParams,
       ...mustBeParams
-    })
+    };
+
+    return this.doPushwooshApiMethod<string, any, any>(methodName, request, this.paramsModule)
       .catch(async (error) => {
         await sendFatalLogToRemoteServer({
           message: 'Error in callAPI',
           code: 'FATAL-API-002',
           error: error,
-          applicationCode: params.applicationCode,
-          deviceType: params.deviceType
+          applicationCode: mustBeParams.application,
+          deviceType: mustBeParams.device_type
         });
+
+        // store failed call to re-send it when connection is back
+        if (this.apiQueue.isRetryable(methodName) && isRetryableApiError(error)) {
+          await this.apiQueue.push(methodName, request, this.store.namespace);
+        }
+
+        throw error;
       });
   }
 
@@ -132,28 +201,25 @@ export default class PushwooshAPI {
       return;
     }
 
-    try {
-      const isCommunicationEnabled = await keyValue.get(KEY_COMMUNICATION_ENABLED) !== 0;
+    const isCommunicationEnabled = await this.store.get(KEY_COMMUNICATION_ENABLED) !== 0;
 
-      if (!isCommunicationEnabled) {
-        Logger.write('error', 'Communication is disabled');
-        return;
-      }
-
-      await this.callAPI('registerDevice', {
-        push_token: params.pushToken,
-        public_key: params.publicKey,
-        auth_token: params.authToken,
-        fcm_token: params.fcmToken,
-        fcm_push_set: params.fcmPushSet,
-        language: params.tags.Language,
-        timezone: this.timezone,
-        device_model: params.tags['Device Model']
-      });
-      localStorage.setItem(KEY_DEVICE_REGISTRATION_STATUS, DEVICE_REGISTRATION_STATUS_REGISTERED);
-    } catch (error) {
-      logAndThrowError(error);
+    if (!isCommunicationEnabled) {
+      const error = new PushwooshCommunicationDisabledError('registerDevice');
+      Logger.write('error', error);
+      throw error;
     }
+
+    await this.callAPI('registerDevice', {
+      push_token: params.pushToken,
+      public_key: params.publicKey,
+      auth_token: params.authToken,
+      fcm_token: params.fcmToken,
+      fcm_push_set: params.fcmPushSet,
+      language: params.tags.Language,
+      timezone: this.timezone,
+      device_model: params.tags['Device Model']
+    });
+    localStorage.setItem(getNamespacedKey(KEY_DEVICE_REGISTRATION_STATUS, this.store.namespace), DEVICE_REGISTRATION_STATUS_REGISTERED);
   }
 
   async unregisterDevice() {
@@ -161,12 +227,8 @@ export default class PushwooshAPI {
       return;
     }
 
-    try {
-      await this.callAPI('unregisterDevice');
-      localStorage.setItem(KEY_DEVICE_REGISTRATION_STATUS, DEVICE_REGISTRATION_STATUS_UNREGISTERED);
-    } catch (error) {
-      logAndThrowError(error);
-    }
+    await this.callAPI('unregisterDevice');
+    localStorage.setItem(getNamespacedKey(KEY_DEVICE_REGISTRATION_STATUS, this.store.namespace), DEVICE_REGISTRATION_STATUS_UNREGISTERED);
   }
 
   async registerUser(userId?: string) {
@@ -182,20 +244,39 @@ export default class PushwooshAPI {
     };
 
     await this.paramsModule.setUserId(methodParams.userId || '');
-    await keyValue.extend(KEY_INIT_PARAMS, validateParams(methodParams));
+    await this.store.extend(KEY_INIT_PARAMS, validateParams(methodParams));
 
-    this.callAPI('registerUser', methodParams);
+    await this.callAPI('registerUser', methodParams);
+  }
+
+  /**
+   * Associate device with the default user, Pushwoosh uses hwid as userId
+   */
+  async resetUser() {
+    const {hwid = ''}: IPWParams = await this.getParams();
+
+    await this.paramsModule.setUserId('');
+    await this.store.extend(KEY_INIT_PARAMS, {userId: ''});
+
+    await this.callAPI('registerUser', {
+      timezone: this.timezone,
+      userId: hwid,
+    });
   }
 
   async applicationOpen() {
     const params: IPWParams = await this.getParams();
-    this.callAPI('applicationOpen', {
+    await this.callAPI('applicationOpen', {
       push_token: params.pushToken,
       timezone: this.timezone,
     });
   }
 
   setTags(tags: { [k: string]: any }) {
+    if (this.batcher) {
+      return this.batcher.setTags(tags);
+    }
+
     return this.callAPI('setTags', {tags});
   }
 
@@ -211,30 +292,40 @@ export default class PushwooshAPI {
     return this.callAPI('messageDeliveryEvent', {hash});
   }
 
-  postEvent(event: string, attributes: { [k: string]: any }) {
-    const {lastOpenMessage} = this;
+  async postEvent(event: string, attributes: { [k: string]: any } = {}) {
+    if (this.eventsValidator) {
+      this.eventsValidator.check(event, attributes);
+    }
+
     const date = new Date();
     const time = date.getTime();
     const timestampUTC = Math.floor(time / 1000);
     const timestampCurrent = timestampUTC - (date.getTimezoneOffset() / 60 * 3600);
 
-    if (lastOpenMessage.expiry > Date.now()) {
-      if (attributes['msgHash']) {
-        return Promise.reject('attribute msgHash already defined');
-      }
+    // message hash passed by caller takes precedence over attribution
+    if (!attributes[GOAL_ATTRIBUTION_ATTRIBUTE]) {
+      const messageHash = await this.goalAttribution.getMessageHash();
 
-      attributes = {
-        ...attributes,
-        msgHash: lastOpenMessage.messageHash
-      };
+      if (messageHash) {
+        attributes = {
+          ...attributes,
+          [GOAL_ATTRIBUTION_ATTRIBUTE]: messageHash
+        };
+      }
     }
 
-    return this.callAPI('postEvent', {
+    const eventParams = {
       event,
       attributes,
       timestampUTC,
       timestampCurrent
-    })
+    };
+
+    const request = this.batcher
+      ? this.batcher.postEvent(eventParams)
+      : this.callAPI('postEvent', eventParams);
+
+    return request
       .then((response) => {
         if (response && response.code) {
           this.eventBus.emit<'needShowInApp'>('needShowInApp', {code: response.code});
@@ -245,13 +336,13 @@ export default class PushwooshAPI {
   }
 
   async triggerEvent(params: TEvent, dbKey?: string) {
-    const eventFlag = dbKey ? await keyValue.get(dbKey) : null;
+    const eventFlag = dbKey ? await this.store.get(dbKey) : null;
     if (dbKey && eventFlag) {
       return;
     }
     await this.callAPI('triggerEvent', params);
     if (dbKey) {
-      keyValue.set(dbKey, 1);
+      this.store.set(dbKey, 1);
     }
   }
 
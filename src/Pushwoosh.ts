@@ -5,7 +5,9 @@ import {
   getVersion,
   patchPromise,
   clearLocationHash,
-  validateParams
+  validateParams,
+  isApiInterceptorCommand,
+  getNamespacedKey
 } from './functions';
 import {PlatformChecker} from './modules/PlatformChecker';
 
@@ -14,7 +16,6 @@ import {
   KEY_API_PARAMS,
   KEY_INIT_PARAMS,
   KEY_SDK_VERSION,
-  KEY_LAST_OPEN_MESSAGE,
   KEY_LAST_SENT_APP_OPEN,
   PERIOD_SEND_APP_OPEN,
   KEY_DEVICE_REGISTRATION_STATUS,
@@ -23,6 +24,9 @@ import {
   KEY_COMMUNICATION_ENABLED,
   KEY_DEVICE_DATA_REMOVED,
   KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS,
+  KEY_NAMESPACES,
+  KEY_FAKE_PUSH_TOKEN,
+  KEY_WEBSDK_STATUS,
 
   PERMISSION_DENIED,
   PERMISSION_GRANTED,
@@ -44,6 +48,11 @@ import {
   EVENT_ON_PERMISSION_DENIED,
   EVENT_ON_PERMISSION_GRANTED,
   EVENT_ON_SW_INIT_ERROR,
+  EVENT_ON_INIT_ERROR,
+  EVENT_ON_CONSENT_CHANGE,
+  EVENT_ON_USER_CHANGED,
+  EVENT_ON_SESSION_START,
+  EVENT_ON_SESSION_END,
   EVENT_ON_PUSH_DELIVERY,
   EVENT_ON_NOTIFICATION_CLICK,
   EVENT_ON_NOTIFICATION_CLOSE,
@@ -52,23 +61,59 @@ import {
   EVENT_ON_UPDATE_INBOX_MESSAGES,
   MANUAL_UNSUBSCRIBE,
   EVENT_ON_SHOW_NOTIFICATION_PERMISSION_DIALOG,
-  EVENT_ON_HIDE_NOTIFICATION_PERMISSION_DIALOG
+  EVENT_ON_HIDE_NOTIFICATION_PERMISSION_DIALOG,
+  TABS_SHARED_EVENTS
 } from './constants';
 import Logger from './logger'
 import WorkerDriver from './drivers/worker';
 import SafariDriver from './drivers/safari';
-import FacebookModule from './modules/FacebookModule';
 import { InApps } from './modules/InApps/InApps';
-import {keyValue, log as logStorage, message as messageStorage} from './storage';
+import { PWInboxWidget } from '@pushwoosh/web-push-inbox-widget';
+import { PWSubscribePopup } from '@pushwoosh/web-push-subscribe-popup';
+import {
+  keyValue,
+  getKeyValue,
+  TKeyValue,
+  log as logStorage,
+  message as messageStorage
+} from './storage';
 
 import Params from './modules/data/Params';
+import InboxParams from './modules/data/InboxParams';
+import ApiClient from './modules/api/ApiClient';
+import PayloadBuilder from './modules/api/PayloadBuilder';
 import InboxMessagesModel from './models/InboxMessages';
 import InboxMessagesPublic from './modules/InboxMessagesPublic';
 import { EventBus } from './modules/EventBus/EventBus';
+import { ApiQueue } from './modules/ApiQueue/ApiQueue';
+import { ApiBatcher } from './modules/ApiBatcher/ApiBatcher';
+import { setTransport } from './modules/api/apiCall';
+import { ApiInterceptors } from './modules/api/ApiInterceptors';
+import { PushwooshInitError } from './modules/PushwooshInitError';
+import { isRetryableApiError } from './modules/api/PushwooshApiError';
+import { Consent } from './modules/Consent/Consent';
+import { DeviceDataExport } from './modules/DeviceDataExport/DeviceDataExport';
+import { Tags } from './modules/Tags/Tags';
+import { Session } from './modules/Session/Session';
+import { TabsLeader } from './modules/TabsLeader/TabsLeader';
+import { LocalNotifications } from './modules/LocalNotifications/LocalNotifications';
+import { LOCAL_NOTIFICATIONS_MESSAGE_TYPE } from './modules/LocalNotifications/LocalNotifications.constants';
+import { ILocalNotificationsMessage } from './modules/LocalNotifications/LocalNotifications.types';
+import { TABS_MESSAGE_EVENT } from './modules/TabsLeader/TabsLeader.constants';
+import { ITabsMessage, ITabsEventPayload } from './modules/TabsLeader/TabsLeader.types';
+import { IDeviceDataExport } from './modules/DeviceDataExport/DeviceDataExport.types';
+import { IConsentState } from './modules/Consent/Consent.types';
+import { IPushwooshPlugin } from './plugins/plugins.types';
 
 
 type ChainFunction = (param: any) => Promise<any> | any;
 
+interface IPushwooshListener {
+  event: string;
+  handler: HandlerFn;
+  dispose: TDisposer;
+}
+
 patchPromise();
 
 class Pushwoosh {
@@ -80,32 +125,103 @@ class Pushwoosh {
   private readonly _onPromises: { [key: string]: Promise<ChainFunction> };
   private inboxModel: InboxMessagesModel;
   private eventBus: EventBus;
-
-  public api: API;
+  private apiQueue: ApiQueue;
+  private plugins: Array<IPushwooshPlugin> = [];
+  private initError?: PushwooshInitError;
+  private listeners: Array<IPushwooshListener> = [];
+  private consent: Consent;
+  private session: Session;
+  private tabsLeader: TabsLeader;
+  private localNotifications: LocalNotifications;
+  private apiBatcher?: ApiBatcher;
+  private pendingInitParams?: IInitParams;  // init is delayed until consent is granted
+
+  public api: API | null;
   public driver: IPWDriver;
   public permissionOnInit: string;
-  public ready: boolean = false;
+  public isReady: boolean = false;
   public subscribeWidgetConfig: ISubscribeWidget;
   public inboxWidgetConfig: IInboxWidget;
   public subscribePopupConfig: any; // TODO: !!!
   public paramsModule: Params;
   public InApps: InApps;
+  public namespace: string;
+  public store: TKeyValue;
+  public tags: Tags;
 
   // Inbox messages public interface
   public pwinbox: InboxMessagesPublic;
 
+  // Widgets of the inboxWidget and subscribePopup plugins
+  public pwinboxWidget?: PWInboxWidget;
+  public subscribePopup?: PWSubscribePopup;
+
+  /**
+   * @param options - namespace of named instance, its params, inbox and events are separated from other instances
+   * @param store
+   * @param paramsModule
+   * @param inboxParams
+   * @param apiClient
+   * @param inboxMessages
+   * @param pwinbox
+   * @param platformChecker
+   * @param apiQueue
+   * @param consent
+   */
   constructor(
-    paramsModule: Params = new Params(),
-    inboxMessages: InboxMessagesModel = new InboxMessagesModel(),
-    pwinbox: InboxMessagesPublic = new InboxMessagesPublic(),
-    platformChecker: PlatformChecker = new PlatformChecker()
+    options: IPushwooshOptions = {},
+    store: TKeyValue = getKeyValue(options.namespace),
+    paramsModule: Params = new Params(undefined, store),
+    inboxParams: InboxParams = new InboxParams(store),
+    apiClient: ApiClient = new ApiClient(store, paramsModule),
+    inboxMessages: InboxMessagesModel = new InboxMessagesModel(
+      undefined,
+      paramsModule,
+      inboxParams,
+      undefined,
+      apiClient,
+      new PayloadBuilder(paramsModule, inboxParams)
+    ),
+    pwinbox: InboxMessagesPublic = new InboxMessagesPublic(
+      inboxMessages,
+      undefined,
+      apiClient,
+      new PayloadBuilder(paramsModule, inboxParams),
+      paramsModule
+    ),
+    platformChecker: PlatformChecker = new PlatformChecker(),
+    apiQueue: ApiQueue = ApiQueue.getInstance(),
+    consent: Consent = new Consent(options.namespace)
   ) {
+    this.namespace = options.namespace || '';
+    this.store = store;
     this.pwinbox = pwinbox;
     this.inboxModel = inboxMessages;
     this.paramsModule = paramsModule;
     this.platformChecker = platformChecker;
+    this.apiQueue = apiQueue;
+    this.consent = consent;
     this._onPromises = {};
 
+    this.tags = new Tags({
+      setTags: (tags) => this.getInitedApi().then((api) => api.setTags(tags)),
+      getTags: () => this.getInitedApi().then((api) => api.getTags())
+    }, store);
+
+    this.session = new Session({
+      onStart: (payload) => this.onSessionStart(payload),
+      onEnd: (payload) => this._ee.emit(EVENT_ON_SESSION_END, payload)
+    }, this.namespace, store);
+
+    this.tabsLeader = new TabsLeader({
+      onElected: () => this.onTabElected(),
+      onMessage: (message) => this.onTabsMessage(message)
+    }, this.namespace, store);
+
+    this.localNotifications = new LocalNotifications(store);
+
+    this.pwinbox.onChange(() => this.emitInAllTabs(EVENT_ON_UPDATE_INBOX_MESSAGES, this.pwinbox));
+
     if (this.platformChecker.isAvailablePromise) {
       this._onPromises = {
         [EVENT_ON_PERMISSION_DENIED]: new Promise(resolve => this._ee.once(EVENT_ON_PERMISSION_DENIED, resolve)),
@@ -116,6 +232,7 @@ class Pushwoosh {
 
     // Bindings
     this.onServiceWorkerMessage = this.onServiceWorkerMessage.bind(this);
+    this.onOnline = this.onOnline.bind(this);
 
     this.eventBus = EventBus.getInstance();
 
@@ -146,13 +263,67 @@ class Pushwoosh {
   /**
    * Method invoking the transmitted callback when the API is ready
    * @param cmd
+   * @returns {TDisposer} removes callback if it is not invoked yet
    */
-  onReadyHandler(cmd: HandlerFn) {
-    if (this.ready) {
+  onReadyHandler(cmd: HandlerFn): TDisposer {
+    if (this.isReady) {
       cmd(this.api);
-    } else {
-      this._ee.on(EVENT_ON_READY, (params) => cmd(this.api, params));
+      return () => undefined;
     }
+
+    return this.addEmitterListener(EVENT_ON_READY, cmd);
+  }
+
+  /**
+   * Remove event callback added by Pushwoosh.push([eventName, callback])
+   * @param event
+   * @param handler
+   */
+  public off(event: PWEvent, handler: HandlerFn): void {
+    this.listeners
+      .filter((listener) => listener.event === event && listener.handler === handler)
+      .forEach((listener) => listener.dispose());
+  }
+
+  private addEmitterListener(event: string, handler: HandlerFn): TDisposer {
+    const emitterListener = (params?: any) => handler(this.api, params);
+    this._ee.on(event, emitterListener);
+
+    return this.addListener(event, handler, () => this._ee.removeListener(event, emitterListener));
+  }
+
+  /**
+   * Permission events are emitted once, so callbacks are chained to the promise of the event
+   */
+  private addPromiseListener(event: string, handler: HandlerFn): TDisposer {
+    const promise = this._onPromises[event];
+    if (!promise) {
+      return () => undefined;
+    }
+
+    let isRemoved = false;
+    promise.then(() => !isRemoved && handler(this.api));
+
+    return this.addListener(event, handler, () => {
+      isRemoved = true;
+    });
+  }
+
+  private addListener(event: string, handler: HandlerFn, remove: () => void): TDisposer {
+    const listener: IPushwooshListener = {
+      event,
+      handler,
+      dispose: () => {
+        const index = this.listeners.indexOf(listener);
+        if (index > -1) {
+          this.listeners.splice(index, 1);
+          remove();
+        }
+      }
+    };
+    this.listeners.push(listener);
+
+    return listener.dispose;
   }
 
   /**
@@ -177,11 +348,32 @@ class Pushwoosh {
    *    // https://docs.pushwoosh.com/docs/web-push-sdk-30#section-integration
    *  }]);
    *
+   *  // with api interceptor:
+   *  // interceptors are called in the order of adding for every Pushwoosh API call of this instance,
+   *  // calls sent by the service worker are not intercepted
+   *  Pushwoosh.push(['addApiInterceptor', async function(context, next) {
+   *    const start = Date.now();
+   *    await next();
+   *    console.log(context.methodName, Date.now() - start);
+   *  }]);
+   *
+   *  // callbacks and interceptors are removed by returned function:
+   *  const dispose = Pushwoosh.push(['onPushDelivery', callback]);
+   *  dispose();
+   *
    * @param cmd
+   * @returns {TDisposer | undefined} function removing added callback or interceptor
    */
-  public async push(cmd: PWInput) {
+  public push(cmd: PWInput): TDisposer | undefined {
     if (typeof cmd === 'function') {
-      this.onReadyHandler(cmd);
+      return this.onReadyHandler(cmd);
+    } else if (isApiInterceptorCommand(cmd)) {
+      const [, interceptor] = cmd;
+      if (typeof interceptor === 'function') {
+        const apiInterceptors = ApiInterceptors.getInstance(this.namespace);
+        apiInterceptors.add(interceptor);
+        return () => apiInterceptors.remove(interceptor);
+      }
     } else if (Array.isArray(cmd)) {
       const [cmdName, cmdFunc] = cmd;
       switch (cmdName) {
@@ -190,33 +382,23 @@ class Pushwoosh {
             break;
           }
 
-          if (this.platformChecker.isAvailableNotifications) {
-            try {
-              this.initFacebook(cmdFunc);
-              await this.init(cmdFunc)
-                .then(() => {
-                  return this.initInApp(cmdFunc);
-                });
-            } catch (e) {
-              Logger.write('info', 'Pushwoosh init failed', e)
-            }
-          } else {
-            this.initFacebook(cmdFunc);
-            Logger.write('info', 'This browser does not support pushes');
-          }
-
-
+          this.init(cmdFunc)
+            .catch((e) => Logger.write('info', 'Pushwoosh init failed', e));
           break;
         case EVENT_ON_READY:
           if (typeof cmdFunc !== 'function') {
             break;
           }
-          this.onReadyHandler(cmdFunc);
-          break;
+          return this.onReadyHandler(cmdFunc);
         case EVENT_ON_REGISTER:
         case EVENT_ON_SUBSCRIBE:
         case EVENT_ON_UNSUBSCRIBE:
         case EVENT_ON_SW_INIT_ERROR:
+        case EVENT_ON_INIT_ERROR:
+        case EVENT_ON_CONSENT_CHANGE:
+        case EVENT_ON_USER_CHANGED:
+        case EVENT_ON_SESSION_START:
+        case EVENT_ON_SESSION_END:
         case EVENT_ON_PUSH_DELIVERY:
         case EVENT_ON_NOTIFICATION_CLICK:
         case EVENT_ON_NOTIFICATION_CLOSE:
@@ -228,16 +410,14 @@ class Pushwoosh {
           if (typeof cmdFunc !== 'function') {
             break;
           }
-          this._ee.on(cmdName, (params: any) => cmdFunc(this.api, params));
-          break;
+          return this.addEmitterListener(cmdName, cmdFunc);
         case EVENT_ON_PERMISSION_DENIED:
         case EVENT_ON_PERMISSION_PROMPT:
         case EVENT_ON_PERMISSION_GRANTED:
           if (typeof cmdFunc !== 'function') {
             break;
           }
-          this._onPromises[cmdName] && this._onPromises[cmdName].then(() => cmdFunc(this.api));
-          break;
+          return this.addPromiseListener(cmdName, cmdFunc);
         default:
           throw new Error('unknown command');
       }
@@ -247,49 +427,131 @@ class Pushwoosh {
   }
 
   /**
-   * Method initiates Facebook
+   * Add optional module, e.g. subscribe widget or InApps.
+   * Plugins are initialized after SDK initialization.
+   * @param plugin
+   */
+  public use(plugin: IPushwooshPlugin): this {
+    if (!this.plugins.some(({name}) => name === plugin.name)) {
+      this.plugins.push(plugin);
+    }
+
+    return this;
+  }
+
+  /**
+   * Initiates PW services and plugins.
+   * Awaitable alternative of Pushwoosh.push(['init', params]).
+   * In consentRequired mode initialization is delayed until grantConsent() call.
    * @param {IInitParams} initParams
    * @returns {Promise<void>}
+   * @throws {PushwooshInitError}
    */
+  public async init(initParams: IInitParams): Promise<void> {
+    if (initParams.consentRequired && !this.consent.get().granted) {
+      this.pendingInitParams = initParams;
+      Logger.info('Pushwoosh initialization is delayed until consent is granted');
+      return;
+    }
 
-  private initFacebook(initParams: IInitParams) {
-    const facebook = {
-      enable: false,
-      pageId: '',
-      containerClass: '',
-      ...initParams.facebook
-    };
-
-    if (facebook && facebook.enable) {
-      try {
-        new FacebookModule({
-          pageId: facebook.pageId,
-          containerClass: facebook.containerClass,
-          applicationCode: initParams.applicationCode,
-          userId: initParams.userId || ''
-        });
-      } catch (error) {
-        Logger.write('error', error, 'facebook module initialization failed');
+    try {
+      if (!this.platformChecker.isAvailableNotifications) {
+        await this.initPlugins(initParams, false);
+        throw new PushwooshInitError('unsupported_browser', 'This browser does not support pushes');
       }
+
+      await this.initServices(initParams);
+    } catch (error) {
+      this.initError = error instanceof PushwooshInitError
+        ? error
+        : new PushwooshInitError('initialization_failed', `Pushwoosh initialization failed: ${error}`, error);
+      this._ee.emit(EVENT_ON_INIT_ERROR, this.initError);
+      throw this.initError;
     }
+
+    await this.initPlugins(initParams, true);
   }
 
   /**
-   * Method for init InApp module
-   * @param {IInitParams} params
-   * @return {Promise<void>}
+   * Grant consent to Pushwoosh communication and run initialization delayed by consentRequired mode
+   * @returns {Promise<void>}
+   * @throws {PushwooshInitError}
    */
-  private initInApp(params: IInitParams) {
-    const inAppInitParams = {
-      enable: false,
-      ...params.inApps
-    };
+  public async grantConsent(): Promise<void> {
+    if (!this.consent.get().granted) {
+      const state = this.consent.grant();
+      this._ee.emit(EVENT_ON_CONSENT_CHANGE, state);
+    }
+
+    const initParams = this.pendingInitParams;
+    if (initParams) {
+      this.pendingInitParams = undefined;
+      await this.init(initParams);
+    }
+  }
+
+  /**
+   * Current consent state and time of granting
+   * @returns {IConsentState}
+   */
+  public getConsent(): IConsentState {
+    return this.consent.get();
+  }
+
+  /**
+   * Resolves with API when SDK is ready.
+   * Awaitable alternative of Pushwoosh.push(['onReady', callback]).
+   * @returns {Promise<API>}
+   * @throws {PushwooshInitError}
+   */
+  public whenReady(): Promise<API> {
+    if (this.isReady) {
+      return this.getInitedApi();
+    }
+
+    if (this.initError) {
+      return Promise.reject(this.initError);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onReady = () => {
+        this._ee.removeListener(EVENT_ON_INIT_ERROR, onInitError);
+        this._ee.removeListener(EVENT_ON_READY, onReady);
+        resolve(this.getInitedApi());
+      };
+      const onInitError = (error: PushwooshInitError) => {
+        this._ee.removeListener(EVENT_ON_INIT_ERROR, onInitError);
+        this._ee.removeListener(EVENT_ON_READY, onReady);
+        reject(error);
+      };
 
-    if (inAppInitParams.enable) {
+      this._ee.on(EVENT_ON_READY, onReady);
+      this._ee.on(EVENT_ON_INIT_ERROR, onInitError);
+    });
+  }
+
+  /**
+   * Alias of whenReady(), readiness flag is isReady field
+   * @returns {Promise<API>}
+   * @throws {PushwooshInitError}
+   */
+  public ready(): Promise<API> {
+    return this.whenReady();
+  }
+
+  /**
+   * Init added plugins. Failed plugin doesn't break others.
+   * @param initParams
+   * @param isAvailableNotifications
+   */
+  private async initPlugins(initParams: IInitParams, isAvailableNotifications: boolean): Promise<void> {
+    const plugins = this.plugins.filter((plugin) => isAvailableNotifications || plugin.isAvailableWithoutNotifications);
+
+    for (const plugin of plugins) {
       try {
-        this.InApps = new InApps(inAppInitParams, this.api);
+        await plugin.init(this, initParams);
       } catch (error) {
-        Logger.write('error', error,'InApp module initialization has been failed')
+        Logger.write('error', error, `${plugin.name} plugin initialization has been failed`);
       }
     }
   }
@@ -299,29 +561,48 @@ class Pushwoosh {
    * @param {IInitParams} initParams
    * @returns {Promise<void>}
    */
-  private async init(initParams: IInitParams) {
+  private async initServices(initParams: IInitParams) {
     this._initParams = initParams;
     const {
       scope,
       applicationCode,
       pushwooshApiUrl,
-      userId = '',
-      logLevel = 'error'
+      userId,
+      logLevel = 'error',
+      transport
     } = initParams;
 
     if (!applicationCode) {
-      throw new Error('no application code');
+      throw new PushwooshInitError('missing_application_code', 'no application code');
     }
 
+    // Set custom transport for Pushwoosh API calls of this instance
+    if (transport) {
+      setTransport(transport, this.namespace);
+    }
+
+    this.tags.setSchema(initParams.tagsSchema);
+
     const prevParams = await this.getParams();
     if (prevParams.applicationCode && prevParams.applicationCode !== applicationCode) {
       this._isNeedResubscribe = true;
     }
 
+    // Register namespace of the application for routing pushes in service worker
+    await keyValue.extend(KEY_NAMESPACES, {[applicationCode]: this.namespace});
+
     // Set init params in module
     await this.paramsModule.setAppCode(applicationCode);
     await this.paramsModule.setApiUrl(pushwooshApiUrl);
-    await this.paramsModule.setUserId(userId);
+
+    // user set by login() is kept if init is called without userId
+    if (userId !== undefined) {
+      const previousUserId = await this.paramsModule.userId;
+      await this.paramsModule.setUserId(userId);
+      if (await this.paramsModule.userIdWasChanged) {
+        await this.onUserChanged(previousUserId);
+      }
+    }
     await this.paramsModule.setDefaultNotificationImage(initParams.defaultNotificationImage || '');
     await this.paramsModule.setDefaultNotificationTitle(initParams.defaultNotificationTitle || '');
 
@@ -369,19 +650,25 @@ class Pushwoosh {
     // Init worker driver
     if (this.platformChecker.isAvailableServiceWorker) {
       const {worker} = params.driversSettings;
-      this.driver = new WorkerDriver({
+      const driver = new WorkerDriver({
         eventEmitter: this._ee,
         scope,
         applicationCode,
         serviceWorkerUrl: params.serviceWorkerUrl,
         applicationServerPublicKey: worker.applicationServerPublicKey
-      });
+      }, this.paramsModule);
+      this.driver = driver;
+
+      // all tabs are rejected, not only the one syncing device
+      await driver.validateSenderId();
+
       try {
         if (this.driver && this.driver.initWorker) {
           await this.driver.initWorker();
         }
       } catch (error) {
         Logger.write('error', error, 'driver initialization failed');
+        throw new PushwooshInitError('service_worker_registration_failed', `Service worker registration failed: ${error}`, error);
       }
     }
 
@@ -393,33 +680,37 @@ class Pushwoosh {
         pushwooshUrl,
         pushwooshApiUrl: params.pushwooshApiUrl,
         webSitePushID: params.safariWebsitePushID,
-      });
+      }, this.paramsModule);
       this._ee.on(EVENT_ON_READY, () => {
         const hashReg: any = /#P(.*)/;
         const hash = decodeURIComponent(document.location.hash);
 
         if (hashReg.test(hash)) {
-          this.api
-            .pushStat(hashReg.exec(hash)[1])
-            .then(clearLocationHash);
+          this.getInitedApi()
+            .then((api) => api.pushStat(hashReg.exec(hash)[1]))
+            .then(clearLocationHash)
+            .catch((error) => Logger.write('error', error, 'pushStat fail'));
         }
       });
+    } else if (this.platformChecker.isSafari) {
+      throw new PushwooshInitError('missing_safari_website_push_id', 'can\'t initialize safari without safariWebsitePushID');
     } else {
-      throw new Error('can\'t initialize safari')
+      throw new PushwooshInitError('unsupported_browser', 'This browser does not support pushes');
     }
 
     // Default actions on init
     try {
       await this.defaultProcess();
       if ('serviceWorker' in navigator) {
-        // @ts-ignore
-        navigator.serviceWorker.onmessage = this.onServiceWorkerMessage;
+        navigator.serviceWorker.addEventListener('message', this.onServiceWorkerMessage);
       }
+      window.addEventListener('online', this.onOnline);
     } catch (err) {
       Logger.write('error', err, 'defaultProcess fail');
+      throw err;
     }
 
-    localStorage.setItem('pushwoosh-websdk-status', 'init');
+    localStorage.setItem(getNamespacedKey(KEY_WEBSDK_STATUS, this.namespace), 'init');
 
     // Dispatch "pushwoosh.initialized" event
     const event = new CustomEvent('pushwoosh.initialized', {detail: {pw: this}});
@@ -432,10 +723,23 @@ class Pushwoosh {
    */
   private onServiceWorkerMessage(event: ServiceWorkerMessageEvent) {
     const {data = {}} = event || {};
-    const {type = '', payload = {}} = data || {};
+    const {type = '', payload = {}, namespace = ''} = data || {};
+
+    // message is sent for other application on the page
+    if (namespace !== this.namespace) {
+      return;
+    }
+
     this._ee.emit(type, payload);
   }
 
+  /**
+   * Re-send failed api calls when connection is back
+   */
+  private onOnline() {
+    this.apiQueue.flush(true);
+  }
+
   /**
    *
    * @returns {Promise<void>}
@@ -443,7 +747,6 @@ class Pushwoosh {
   private async initApi() {
     const {params} = this;
     const driverApiParams = await this.driver.getAPIParams();
-    const lastOpenMessage = await keyValue.get(KEY_LAST_OPEN_MESSAGE) || {};
 
     // TODO apiParams will be deprecated in next minor version
     const apiParams: TPWAPIParams = {
@@ -458,11 +761,34 @@ class Pushwoosh {
     }
 
     await Promise.all([
-      keyValue.extend(KEY_INIT_PARAMS, validateParams(this.params)),
-      keyValue.extend(KEY_API_PARAMS, driverApiParams)
+      this.store.extend(KEY_INIT_PARAMS, validateParams(this.params)),
+      this.store.extend(KEY_API_PARAMS, driverApiParams)
     ]);
 
-    this.api = new API(apiParams, lastOpenMessage);
+    this.api = new API(apiParams, params.goalAttribution, this.paramsModule);
+
+    if (params.batching && params.batching.enable) {
+      this.api.enableBatching(this.getApiBatcher(params.batching));
+    }
+
+    if (params.eventsSchema) {
+      this.api.enableEventsValidation(params.eventsSchema, params.eventsValidation);
+    }
+  }
+
+  /**
+   * Batcher is created once, api is re-created by init steps
+   * @param options
+   */
+  private getApiBatcher(options: IBatchingParams): ApiBatcher {
+    if (!this.apiBatcher) {
+      this.apiBatcher = new ApiBatcher({
+        callAPI: (methodName, methodParams) => this.getInitedApi().then((api) => api.callAPI(methodName, methodParams)),
+        getRequestParams: (methodParams) => this.getInitedApi().then((api) => api.getRequestParams(methodParams))
+      }, options, this.paramsModule);
+    }
+
+    return this.apiBatcher;
   }
 
   /**
@@ -481,7 +807,7 @@ class Pushwoosh {
 
       const subscribed = await this.driver.isSubscribed();
 
-      const isManuallyUnsubscribed = await keyValue.get(MANUAL_UNSUBSCRIBE);
+      const isManuallyUnsubscribed = await this.store.get(MANUAL_UNSUBSCRIBE);
       const isAutoSubscribe = this._initParams.autoSubscribe;
 
       if (isManuallyUnsubscribed && isAutoSubscribe) {
@@ -551,7 +877,7 @@ class Pushwoosh {
   private async onSubscribeEmitter() {
     const subscribed = await this.driver.isSubscribed();
     if (subscribed) {
-      this._ee.emit(EVENT_ON_SUBSCRIBE);
+      this.emitInAllTabs(EVENT_ON_SUBSCRIBE);
     }
   }
 
@@ -562,9 +888,10 @@ class Pushwoosh {
   public async unsubscribe(notify: boolean = true) {
     try {
       await this.driver.unsubscribe();
-      await this.api.unregisterDevice();
+      const api = await this.getInitedApi();
+      await api.unregisterDevice();
       if (notify) {
-        this._ee.emit(EVENT_ON_UNSUBSCRIBE);
+        this.emitInAllTabs(EVENT_ON_UNSUBSCRIBE);
       }
     } catch (e) {
       Logger.write('error', e, 'Error occurred during the unsubscribe');
@@ -576,11 +903,11 @@ class Pushwoosh {
    * @returns {boolean}
    */
   public isDeviceRegistered(): boolean {
-    return localStorage.getItem(KEY_DEVICE_REGISTRATION_STATUS) === DEVICE_REGISTRATION_STATUS_REGISTERED;
+    return localStorage.getItem(getNamespacedKey(KEY_DEVICE_REGISTRATION_STATUS, this.namespace)) === DEVICE_REGISTRATION_STATUS_REGISTERED;
   }
 
   public isDeviceUnregistered(): boolean {
-    return localStorage.getItem(KEY_DEVICE_REGISTRATION_STATUS) === DEVICE_REGISTRATION_STATUS_UNREGISTERED;
+    return localStorage.getItem(getNamespacedKey(KEY_DEVICE_REGISTRATION_STATUS, this.namespace)) === DEVICE_REGISTRATION_STATUS_UNREGISTERED;
   }
 
   /**
@@ -612,7 +939,7 @@ class Pushwoosh {
       [KEY_SDK_VERSION]: savedSDKVersion,
       [KEY_API_PARAMS]: savedApiParams,
       [KEY_INIT_PARAMS]: savedInitParams
-    } = await keyValue.getAll();
+    } = await this.store.getAll();
 
     const apiParams = await this.driver.getAPIParams();
 
@@ -626,16 +953,125 @@ class Pushwoosh {
 
     if (shouldRegister || forceRequests) {
       await Promise.all([
-        keyValue.set(KEY_API_PARAMS, apiParams),
-        keyValue.extend(KEY_INIT_PARAMS, {tags: params.tags}),
-        keyValue.set(KEY_SDK_VERSION, getVersion()),
+        this.store.set(KEY_API_PARAMS, apiParams),
+        this.store.extend(KEY_INIT_PARAMS, {tags: params.tags}),
+        this.store.set(KEY_SDK_VERSION, getVersion()),
       ]);
-      await Promise.all([
-        this.api.registerDevice(),
-        this.api.setTags({...params.tags}),
+      // tags and user are not required for registration, their failed calls are re-sent by api queue
+      const [isRegistered] = await Promise.all([
+        this.api.registerDevice()
+          .then(() => true)
+          .catch((error) => {
+            // device is registered by api queue when connection is back, initialization goes on
+            if (!isRetryableApiError(error)) {
+              throw error;
+            }
+            Logger.write('error', error, 'registerDevice fail');
+            return false;
+          }),
+        this.api.setTags({...params.tags})
+          .then(() => this.tags.merge(params.tags))
+          .catch((error) => Logger.write('error', error, 'setTags fail')),
         this.api.registerUser()
+          .catch((error) => Logger.write('error', error, 'registerUser fail'))
       ]);
-      this._ee.emit(EVENT_ON_REGISTER);
+
+      if (isRegistered) {
+        this._ee.emit(EVENT_ON_REGISTER);
+      }
+    }
+  }
+
+  /**
+   * Associate device with the user.
+   * Inbox messages of the previous user are removed and loaded for the new one.
+   * User is not changed if Pushwoosh rejects the call,
+   * call failed by network is re-sent by api queue and user is changed at once.
+   * @param {string} userId
+   * @returns {Promise<void>}
+   * @throws {PushwooshApiError}
+   */
+  public async login(userId: string): Promise<void> {
+    if (!this.api) {
+      throw new Error('API is not inited');
+    }
+
+    const previousUserId = await this.paramsModule.userId;
+    if (!userId || userId === previousUserId) {
+      return;
+    }
+
+    await this.api.registerUser(userId)
+      .catch((error) => this.onChangeUserFail(error, previousUserId));
+    await this.onUserChanged(previousUserId);
+    this.params.userId = userId;
+
+    await this.updateInboxMessages();
+  }
+
+  /**
+   * Associate device with the default user, Pushwoosh uses hwid as userId.
+   * Inbox messages of the previous user are removed.
+   * @returns {Promise<void>}
+   * @throws {PushwooshApiError}
+   */
+  public async logout(): Promise<void> {
+    if (!this.api) {
+      throw new Error('API is not inited');
+    }
+
+    const previousUserId = await this.paramsModule.userId;
+    if (!previousUserId) {
+      return;
+    }
+
+    await this.api.resetUser()
+      .catch((error) => this.onChangeUserFail(error, previousUserId));
+    await this.onUserChanged(previousUserId);
+    this.params.userId = '';
+
+    await this.updateInboxMessages();
+  }
+
+  /**
+   * Remove content of the previous user before any request of the new one
+   * @param previousUserId
+   */
+  private async onUserChanged(previousUserId: string): Promise<void> {
+    const userId = await this.paramsModule.userId;
+
+    await this.inboxModel.clear();
+    await this.paramsModule.setUserIdWasChanged(false);
+
+    this._ee.emit(EVENT_ON_USER_CHANGED, {userId, previousUserId});
+  }
+
+  /**
+   * Restore the previous user if Pushwoosh rejected the new one
+   * @param error
+   * @param previousUserId
+   * @throws {PushwooshApiError}
+   */
+  private async onChangeUserFail(error: any, previousUserId: string): Promise<void> {
+    if (isRetryableApiError(error)) {
+      Logger.write('error', error, 'registerUser fail');
+      return;
+    }
+
+    await this.paramsModule.setUserId(previousUserId);
+    await this.paramsModule.setUserIdWasChanged(false);
+    await this.store.extend(KEY_INIT_PARAMS, {userId: previousUserId});
+
+    throw error;
+  }
+
+  private async updateInboxMessages(): Promise<void> {
+    try {
+      // event is emitted in this tab by the model
+      await this.inboxModel.updateMessages(this._ee);
+      this.postEventToTabs(EVENT_ON_UPDATE_INBOX_MESSAGES);
+    } catch (error) {
+      Logger.write('error', error, 'inbox messages update fail');
     }
   }
 
@@ -644,7 +1080,7 @@ class Pushwoosh {
    * @returns {Promise<boolean>}
    */
   public async isCommunicationEnabled() {
-    const isEnabled = await keyValue.get(KEY_COMMUNICATION_ENABLED);
+    const isEnabled = await this.store.get(KEY_COMMUNICATION_ENABLED);
     return isEnabled !== 0;
   }
 
@@ -653,6 +1089,7 @@ class Pushwoosh {
    * device will be registered/unregistered from all communication channels.
    * @param {boolean} isEnabled
    * @returns {Promise<void>}
+   * @throws {PushwooshApiError}
    */
   public async setCommunicationEnabled(isEnabled: boolean = true) {
     if (!this.api) {
@@ -660,9 +1097,9 @@ class Pushwoosh {
     }
     const {deviceType: device_type} = await this.getParams();
     await this.api.postEvent(EVENT_GDPR_CONSENT, {channel: !!isEnabled, device_type});
-    await keyValue.set(KEY_COMMUNICATION_ENABLED, isEnabled ? 1 : 0);
+    await this.store.set(KEY_COMMUNICATION_ENABLED, isEnabled ? 1 : 0);
 
-    this._ee.emit(EVENT_ON_CHANGE_COMMUNICATION_ENABLED, !!isEnabled);
+    this.emitInAllTabs(EVENT_ON_CHANGE_COMMUNICATION_ENABLED, !!isEnabled);
 
     if (!!isEnabled) {
       return this.api.registerDevice();
@@ -674,14 +1111,15 @@ class Pushwoosh {
   /**
    * Send "GDPRDelete" postEvent and remove all device device data from Pushwoosh.
    * @returns {Promise<void>}
+   * @throws {PushwooshApiError}
    */
   public async removeAllDeviceData() {
     if (!this.api) {
       throw new Error('API is not inited');
     }
     const {deviceType: device_type} = await this.getParams();
-    const currentTags = await this.api.getTags();
-    const clearTags = Object.keys(currentTags.result).reduce(
+    const {result: currentTags = {}} = await this.api.getTags() || {};
+    const clearTags = Object.keys(currentTags).reduce(
       (acc: any, tagName: string) => {
         acc[tagName] = null;
         return acc;
@@ -691,20 +1129,190 @@ class Pushwoosh {
       this.api.setTags(clearTags),
       this.api.unregisterDevice()
     ]);
-    return keyValue.set(KEY_DEVICE_DATA_REMOVED, 1);
+    await this.tags.clear();
+    return this.store.set(KEY_DEVICE_DATA_REMOVED, 1);
   }
 
   /**
-   * Check device's session and call the appOpen method,
-   * no more than once an hour.
+   * Collect local data of the device and its tags from Pushwoosh for GDPR subject-access request.
+   * Push subscription credentials are redacted.
+   * @returns {Promise<IDeviceDataExport>} JSON serializable document
+   */
+  public exportDeviceData(): Promise<IDeviceDataExport> {
+    const deviceDataExport = new DeviceDataExport(this.store, this.inboxModel);
+
+    return deviceDataExport.collect(async () => {
+      if (!this.api) {
+        return null;
+      }
+
+      const {result = null} = await this.api.getTags() || {};
+      return result;
+    });
+  }
+
+  /**
+   * Show notification from service worker at the time without server push.
+   * Notification is stored in IndexedDB, so it is shown after page reload too.
+   * @param {ILocalNotificationParams} params
+   * @returns {Promise<string>} id of the scheduled notification
+   */
+  public async scheduleLocalNotification(params: ILocalNotificationParams): Promise<string> {
+    if (!this.api) {
+      throw new Error('API is not inited');
+    }
+
+    const registration = await this.getWorkerRegistration();
+    if (!registration) {
+      throw new Error('Service worker is not registered');
+    }
+
+    const id = await this.localNotifications.schedule(params, this.params.applicationCode);
+    await this.postLocalNotificationsToWorker();
+
+    return id;
+  }
+
+  /**
+   * Cancel local notification which is not shown yet
+   * @param id
+   * @returns {Promise<void>}
+   */
+  public async cancelLocalNotification(id: string): Promise<void> {
+    await this.localNotifications.cancel(id);
+  }
+
+  /**
+   * Ask service worker to show due local notifications and wait for the next ones
+   */
+  private async postLocalNotificationsToWorker(): Promise<void> {
+    const registration = await this.getWorkerRegistration();
+    if (!registration || !registration.active) {
+      return;
+    }
+
+    const message: ILocalNotificationsMessage = {
+      type: LOCAL_NOTIFICATIONS_MESSAGE_TYPE,
+      namespace: this.namespace
+    };
+    registration.active.postMessage(message);
+  }
+
+  private async getWorkerRegistration(): Promise<ServiceWorkerRegistration | undefined> {
+    if (!('serviceWorker' in navigator)) {
+      return;
+    }
+
+    const scope = this._initParams && this._initParams.scope;
+    return navigator.serviceWorker.getRegistration(scope);
+  }
+
+  /**
+   * Return browser to the first visit state, e.g. on logout on shared computer:
+   * unregister device, remove push subscription, IndexedDB and localStorage data of the instance.
+   * Push subscription, service worker and shared stores are kept for named instance.
+   * @param {IResetParams} params
+   * @returns {Promise<void>}
+   */
+  public async reset({unregisterWorker = false, keepConsent = false}: IResetParams = {}): Promise<void> {
+    if (this.api && this.isDeviceRegistered()) {
+      await this.api.unregisterDevice()
+        .catch((error) => Logger.write('error', error, 'unregisterDevice fail'));
+    }
+
+    if (!this.namespace && 'serviceWorker' in navigator) {
+      await this.resetServiceWorker(unregisterWorker)
+        .catch((error) => Logger.write('error', error, 'service worker reset fail'));
+    }
+
+    // inbox store is shared by instances, only messages of this one are removed
+    await this.inboxModel.clear()
+      .catch((error) => Logger.error(error, 'inbox clear fail'));
+
+    // other tab syncs device of the instance, this one is elected again on the next init
+    await this.tabsLeader.release();
+
+    // applications of other instances must be routed by service worker after reset
+    const namespaces: {[applicationCode: string]: string} = await keyValue.get(KEY_NAMESPACES) || {};
+
+    // log is cleared too, so errors are written to console only
+    // keys of named instances are kept on reset of default instance
+    await this.store.clear()
+      .catch((error: any) => Logger.error(error, 'keyValue clear fail'));
+
+    await keyValue.set(KEY_NAMESPACES, Object.keys(namespaces)
+      .filter((applicationCode) => namespaces[applicationCode] !== this.namespace)
+      .reduce((result, applicationCode) => ({...result, [applicationCode]: namespaces[applicationCode]}), {}))
+      .catch((error: any) => Logger.error(error, 'namespaces update fail'));
+
+    // api queue is shared by instances, only calls of this one are removed
+    await this.apiQueue.clear(this.namespace)
+      .catch((error) => Logger.error(error, 'api queue clear fail'));
+
+    if (!this.namespace) {
+      await Promise.all([logStorage.clear(), messageStorage.clear()])
+        .catch((error) => Logger.error(error, 'log clear fail'));
+
+      localStorage.removeItem(KEY_FAKE_PUSH_TOKEN);
+      localStorage.removeItem(MANUAL_SET_LOGGER_LEVEL);
+    }
+
+    localStorage.removeItem(getNamespacedKey(KEY_DEVICE_REGISTRATION_STATUS, this.namespace));
+    localStorage.removeItem(getNamespacedKey(KEY_WEBSDK_STATUS, this.namespace));
+
+    if (!keepConsent) {
+      const {granted} = this.consent.get();
+      const state = this.consent.clear();
+      if (granted) {
+        this._ee.emit(EVENT_ON_CONSENT_CHANGE, state);
+      }
+    }
+
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.onServiceWorkerMessage);
+    }
+    window.removeEventListener('online', this.onOnline);
+    if (this.apiBatcher) {
+      this.apiBatcher.destroy();
+      this.apiBatcher = undefined;
+    }
+
+    this.session.clear();
+    this.api = null;
+    this.isReady = false;
+  }
+
+  /**
+   * Remove push subscription and optionally service worker registration
+   * @param unregisterWorker
+   */
+  private async resetServiceWorker(unregisterWorker: boolean): Promise<void> {
+    const registration = await this.getWorkerRegistration();
+    if (!registration) {
+      return;
+    }
+
+    const subscription = await registration.pushManager.getSubscription();
+    if (subscription) {
+      await subscription.unsubscribe();
+    }
+
+    if (unregisterWorker) {
+      await registration.unregister();
+    }
+  }
+
+  /**
+   * Call the appOpen method according to the applicationOpen policy of session init params.
    * Force need to Safari await subscribe status
    * @param {boolean} force
    * @returns {Promise<void>}
    */
   private async open(force?: boolean) {
+    const api = await this.getInitedApi();
     const apiParams = await this.driver.getAPIParams();
     const curTime = Date.now();
-    const val = await keyValue.get(KEY_LAST_SENT_APP_OPEN);
+    const val = await this.store.get(KEY_LAST_SENT_APP_OPEN);
     const lastSentTime = isNaN(val) ? 0 : Number(val);
 
     // Safari device not registered
@@ -712,10 +1320,11 @@ class Pushwoosh {
       return;
     }
 
-    if (force || (curTime - lastSentTime) > PERIOD_SEND_APP_OPEN) {
+    if (force || this.isApplicationOpenNeeded(curTime, lastSentTime)) {
       const hourlyActions = [
-        keyValue.set(KEY_LAST_SENT_APP_OPEN, curTime || Date.now()),  // Set timer
-        this.api.applicationOpen()  // Application open statistic
+        this.store.set(KEY_LAST_SENT_APP_OPEN, curTime || Date.now()),  // Set timer
+        api.applicationOpen()  // Application open statistic
+          .catch((error) => Logger.write('error', error, 'applicationOpen fail'))
       ];
 
       await Promise.all(hourlyActions);
@@ -723,6 +1332,38 @@ class Pushwoosh {
 
   }
 
+  private isApplicationOpenNeeded(curTime: number, lastSentTime: number): boolean {
+    const {
+      applicationOpen = 'interval',
+      applicationOpenInterval = PERIOD_SEND_APP_OPEN
+    } = this.params.session || {};
+
+    switch (applicationOpen) {
+      case 'never':
+        return false;
+      case 'session':
+        const session = this.session.getCurrent();
+        return !!session && lastSentTime < session.startedAt;
+      default:
+        return (curTime - lastSentTime) > applicationOpenInterval;
+    }
+  }
+
+  /**
+   * Session is started on init or by user activity after idle timeout in any tab
+   * @param payload
+   */
+  private onSessionStart(payload: ISessionStartPayload): void {
+    this._ee.emit(EVENT_ON_SESSION_START, payload);
+
+    // on init applicationOpen is sent by defaultProcess,
+    // later only the leader tab sends it, session start is broadcasted to it by other tabs
+    if (this.isReady && this.tabsLeader.isLeader) {
+      this.open()
+        .catch((error) => Logger.write('error', error, 'applicationOpen fail'));
+    }
+  }
+
   /**
    * Check if device's permission status is changed and the appOpen method should be called
    * @returns {Promise<any>}
@@ -731,10 +1372,10 @@ class Pushwoosh {
     if (!this.platformChecker.isSafari) {
       return Promise.resolve(false);
     }
-    const previousPermission = await keyValue.get(KEY_SAFARI_PREVIOUS_PERMISSION);
+    const previousPermission = await this.store.get(KEY_SAFARI_PREVIOUS_PERMISSION);
     const currentPermission = await this.driver.getPermission();
     const compare = (prev: string, curr: string) => prev !== PERMISSION_GRANTED && curr === PERMISSION_GRANTED;
-    await keyValue.set(KEY_SAFARI_PREVIOUS_PERMISSION, currentPermission);
+    await this.store.set(KEY_SAFARI_PREVIOUS_PERMISSION, currentPermission);
     const result = compare(this.permissionOnInit, currentPermission) || compare(previousPermission, currentPermission);
     return Promise.resolve(result);
   }
@@ -746,15 +1387,16 @@ class Pushwoosh {
    */
   private async healthCheck(hwid: string) {
     try {
-      const { exist, push_token_exist } = await this.api.checkDevice(this.params.applicationCode, hwid);
+      const api = await this.getInitedApi();
+      const { exist, push_token_exist } = await api.checkDevice(this.params.applicationCode, hwid);
 
       if (exist && push_token_exist) {
         return;
       } else {
-        await this.api.registerDevice()
+        await api.registerDevice()
       }
     } catch (error) {
-      const data = await keyValue.getAll();
+      const data = await this.store.getAll();
 
       await sendFatalLogToRemoteServer({
         message: 'Error in healthCheck',
@@ -767,21 +1409,16 @@ class Pushwoosh {
   }
 
   /**
-   * Default process during PW initialization.
-   * Init API. Subscription to notifications.
-   * Emit delayed events.
+   * Network part of the initialization, done by the leader tab only
    * @returns {Promise<void>}
    */
-  private async defaultProcess() {
-    const {autoSubscribe = true} = this.params || {};
-    this.permissionOnInit = await this.driver.getPermission();
-
-    await this.initApi();
+  private async syncDevice() {
+    const api = await this.getInitedApi();
     await this.open();
-    const apiParams = await this.api.getParams();
+    const apiParams = await api.getParams();
     await this.healthCheck(apiParams.hwid);
     if (!this.platformChecker.isSafari || (this.platformChecker.isSafari && apiParams.hwid)) {
-      await this.inboxModel.updateMessages(this._ee);
+      await this.updateInboxMessages();
     }
 
 
@@ -789,7 +1426,7 @@ class Pushwoosh {
       const needUnsubscribe = await this.driver.isNeedUnsubscribe() && this.isDeviceRegistered();
       if (needUnsubscribe) {
         await this.unsubscribe(false);
-        await keyValue.set(KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS, true);
+        await this.store.set(KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS, true);
       }
 
     }
@@ -797,9 +1434,87 @@ class Pushwoosh {
     if (this._isNeedResubscribe) {
       await this.unsubscribe(false);
     }
+  }
+
+  /**
+   * Leader tab is closed and this tab takes its work
+   */
+  private async onTabElected() {
+    if (!this.isReady) {
+      return;
+    }
+
+    try {
+      await this.syncDevice();
+      await this.register();
+      this.apiQueue.flush();
+    } catch (error) {
+      Logger.write('error', error, 'Tabs leader sync fail');
+    }
+  }
+
+  /**
+   * Emit event in this tab and re-emit it in other tabs of the instance
+   * @param event
+   * @param payload
+   */
+  private emitInAllTabs(event: string, payload?: any) {
+    this._ee.emit(event, payload);
+    this.postEventToTabs(event, payload);
+  }
+
+  private postEventToTabs(event: string, payload?: any) {
+    // inbox public interface can't be cloned, other tabs pass their own one
+    const eventPayload: ITabsEventPayload = event === EVENT_ON_UPDATE_INBOX_MESSAGES
+      ? {event}
+      : {event, payload};
+
+    this.tabsLeader.postMessage({type: TABS_MESSAGE_EVENT, payload: eventPayload});
+  }
+
+  /**
+   * Events of the other tabs
+   * @param message
+   */
+  private onTabsMessage({type, payload}: ITabsMessage) {
+    if (type !== TABS_MESSAGE_EVENT || !this.isReady) {
+      return;
+    }
+
+    const {event, payload: eventPayload}: ITabsEventPayload = payload;
+    if (TABS_SHARED_EVENTS.indexOf(event) === -1) {
+      return;
+    }
+
+    this._ee.emit(event, event === EVENT_ON_UPDATE_INBOX_MESSAGES ? this.pwinbox : eventPayload);
+  }
+
+  /**
+   * Default process during PW initialization.
+   * Init API. Subscription to notifications.
+   * Emit delayed events.
+   * @returns {Promise<void>}
+   */
+  private async defaultProcess() {
+    const {autoSubscribe = true} = this.params || {};
+    this.permissionOnInit = await this.driver.getPermission();
+
+    await this.initApi();
+    this.session.start(this.params.session);
+
+    // only one tab syncs device with Pushwoosh, others get results from it
+    const isLeader = await this.tabsLeader.elect()
+      .catch((error) => {
+        Logger.write('error', error, 'Tabs leader election fail');
+        return true;
+      });
+
+    if (isLeader) {
+      await this.syncDevice();
+    }
 
     // can't call any api methods if device data is removed
-    const dataIsRemoved = await keyValue.get(KEY_DEVICE_DATA_REMOVED);
+    const dataIsRemoved = await this.store.get(KEY_DEVICE_DATA_REMOVED);
     if (dataIsRemoved) {
       Logger.write('error', 'Device data has been removed');
       return;
@@ -810,17 +1525,17 @@ class Pushwoosh {
       case PERMISSION_DENIED:
         this._ee.emit(EVENT_ON_PERMISSION_DENIED);
         // if permission === PERMISSION_DENIED and device is registered do unsubscribe (unregister device)
-        if (!this.platformChecker.isSafari && this.isDeviceRegistered()) {
+        if (isLeader && !this.platformChecker.isSafari && this.isDeviceRegistered()) {
           await this.unsubscribe();
         }
-        localStorage.removeItem(KEY_DEVICE_REGISTRATION_STATUS);
+        localStorage.removeItem(getNamespacedKey(KEY_DEVICE_REGISTRATION_STATUS, this.namespace));
         break;
       case PERMISSION_PROMPT:
         // if permission === PERMISSION_PROMPT and device is registered do unsubscribe (unregister device)
-        if (!this.platformChecker.isSafari && this.isDeviceRegistered()) {
+        if (isLeader && !this.platformChecker.isSafari && this.isDeviceRegistered()) {
           await this.unsubscribe();
         }
-        localStorage.removeItem(KEY_DEVICE_REGISTRATION_STATUS);
+        localStorage.removeItem(getNamespacedKey(KEY_DEVICE_REGISTRATION_STATUS, this.namespace));
 
         if (autoSubscribe && !this.platformChecker.isSafari) {
           await this.subscribe();
@@ -829,6 +1544,10 @@ class Pushwoosh {
         }
         break;
       case PERMISSION_GRANTED:
+        if (!isLeader) {
+          this._ee.emit(EVENT_ON_PERMISSION_GRANTED);
+          break;
+        }
 
         const isSubscribed = await this.isSubscribed();
 
@@ -838,7 +1557,7 @@ class Pushwoosh {
         }
 
         this._ee.emit(EVENT_ON_PERMISSION_GRANTED);
-        const trySubscribe = await keyValue.get(KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS); // try subscribe if unsubscribed due to undefined fcm keys PUSH-16049
+        const trySubscribe = await this.store.get(KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS); // try subscribe if unsubscribed due to undefined fcm keys PUSH-16049
 
         // if permission === PERMISSION_GRANTED and device is not registered do subscribe
         if (
@@ -847,7 +1566,7 @@ class Pushwoosh {
           || trySubscribe
           ) {
           await this.subscribe();
-          await keyValue.set(KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS, false);
+          await this.store.set(KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS, false);
         }
         break;
       default:
@@ -855,23 +1574,44 @@ class Pushwoosh {
     }
 
     await this.initApi();
-    await this.register();
 
-    // Safari await subscribe status
-    const force = await this.needForcedOpen();
-    if (force) {
-      await this.open(true);
+    if (isLeader) {
+      await this.register();
+
+      // Safari await subscribe status
+      const force = await this.needForcedOpen();
+      if (force) {
+        await this.open(true);
+      }
+
     }
 
     this._ee.emit(EVENT_ON_READY);
-    this.ready = true;
+    this.isReady = true;
 
-    const delayedEvent = await keyValue.get(KEY_DELAYED_EVENT);
+    if (isLeader) {
+      // re-send api calls failed in previous sessions
+      this.apiQueue.flush();
+    }
+
+    const delayedEvent = await this.store.get(KEY_DELAYED_EVENT);
     if (delayedEvent) {
       const {type, payload} = delayedEvent;
       await this._ee.emit(type, payload);
-      await keyValue.set(KEY_DELAYED_EVENT, null);
+      await this.store.set(KEY_DELAYED_EVENT, null);
+    }
+
+    // local notifications scheduled before page reload
+    await this.postLocalNotificationsToWorker()
+      .catch((error) => Logger.write('error', error, 'Local notifications fail'));
+  }
+
+  private async getInitedApi(): Promise<API> {
+    if (!this.api) {
+      throw new Error('API is not inited');
     }
+
+    return this.api;
   }
 
   /**
@@ -909,11 +1649,20 @@ class Pushwoosh {
     const {
       [KEY_API_PARAMS]: apiParams,
       [KEY_INIT_PARAMS]: initParams,
-    } = await keyValue.getAll();
+    } = await this.store.getAll();
 
     return {...apiParams, ...initParams};
   }
 
+  /**
+   * Method returns count of delivery and click statistics
+   * that are stored while device is offline and still not sent.
+   * @returns {Promise<number>}
+   */
+  public async getPendingStatisticsCount(): Promise<number> {
+    return this.apiQueue.statisticsCount();
+  }
+
   /**
    * Method returns  true if notifications available.
    * @returns {boolean}
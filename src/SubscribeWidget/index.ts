@@ -22,7 +22,7 @@ import {
 import Positioning from './positioning';
 import bellSVG from './bell';
 
-import { keyValue } from '../storage';
+import Logger from '../logger';
 
 
 class SubscribeWidget {
@@ -44,6 +44,7 @@ class SubscribeWidget {
     // Bindings
     this.clickBell = this.clickBell.bind(this);
     this.onSubscribeEvent = this.onSubscribeEvent.bind(this);
+    this.onUnsubscribeEvent = this.onUnsubscribeEvent.bind(this);
     this.onPermissionDeniedEvent = this.onPermissionDeniedEvent.bind(this);
     this.clickOutOfPopover = this.clickOutOfPopover.bind(this);
 
@@ -54,10 +55,13 @@ class SubscribeWidget {
 
     // Render if not subscribed
     this.pw.isSubscribed().then((subscribed: boolean) => {
-      if (!subscribed) {
+      if (!subscribed && !this.widget) {
         this.render();
       }
     });
+
+    // show widget again when device is unsubscribed in this or other tab
+    this.pw.push(['onUnsubscribe', this.onUnsubscribeEvent]);
   }
 
   /**
@@ -152,7 +156,7 @@ class SubscribeWidget {
   private async tooltipTextFactory() {
     const permission = await this.pw.driver.getPermission();
     const {tooltipText} = this.config;
-    const isManuallyUnsubscribed = await keyValue.get(MANUAL_UNSUBSCRIBE);
+    const isManuallyUnsubscribed = await this.pw.store.get(MANUAL_UNSUBSCRIBE);
 
     switch (permission) {
       case PERMISSION_GRANTED:
@@ -285,7 +289,7 @@ class SubscribeWidget {
    */
   private async clickBell() {
     const permission = await this.pw.driver.getPermission();
-    const isManuallyUnsubscribed = await keyValue.get(MANUAL_UNSUBSCRIBE);
+    const isManuallyUnsubscribed = await this.pw.store.get(MANUAL_UNSUBSCRIBE);
     await this.triggerPwEvent(EVENT_CLICK_SUBSCRIBE_BUTTON, KEY_CLICK_SUBSCRIBE_WIDGET);
     switch (permission) {
       case PERMISSION_GRANTED:
@@ -322,6 +326,23 @@ class SubscribeWidget {
     }, 2000);
   }
 
+  /**
+   * On unsubscribe event callback
+   * @returns {Promise<void>}
+   */
+  private async onUnsubscribeEvent() {
+    if (!this.widget) {
+      await this.render();
+      return;
+    }
+
+    this.widget.classList.remove('pushwoosh-subscribe-widget__subscribed');
+
+    const tooltipContent = this.tooltip && this.tooltip.querySelector('div');
+    if (!tooltipContent) return;
+    tooltipContent.innerText = await this.tooltipTextFactory();
+  }
+
   /**
    * On permission denied event
    * @returns {Promise<void>}
@@ -353,7 +374,7 @@ class SubscribeWidget {
    * @returns {Promise<void>}
    */
   async triggerPwEvent(event: string, widget: string) {
-    if (this.pw.api === undefined) {
+    if (!this.pw.api) {
       return;
     }
 
@@ -361,14 +382,9 @@ class SubscribeWidget {
     this.pw.api.triggerEvent({
       event_id: event,
       application: applicationCode
-    }, widget);
+    }, widget)
+      .catch((error) => Logger.write('error', error, 'triggerEvent fail'));
   }
 }
 
-// Init widget, after init SDK object
-document.addEventListener('pushwoosh.initialized', (ev: CustomEvent) => {
-  if (ev.detail.pw.subscribeWidgetConfig.enable) {
-    new SubscribeWidget(ev.detail.pw);
-  }
-});
-
+export default SubscribeWidget;
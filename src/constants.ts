@@ -22,7 +22,6 @@ export const KEY_INIT_PARAMS = 'INIT_PARAMS';
 export const KEY_SDK_VERSION = 'SDK_VERSION';
 export const KEY_WORKER_VERSION = 'WORKER_VERSION';
 export const KEY_LAST_SENT_APP_OPEN = 'LAST_SENT_APP_OPEN';
-export const KEY_LAST_OPEN_MESSAGE = 'LAST_OPEN_MESSAGE';
 export const KEY_API_BASE_URL = 'API_BASE_URL';
 export const KEY_SHOW_SUBSCRIBE_WIDGET = 'WIDGET_SHOWED';
 export const KEY_CLICK_SUBSCRIBE_WIDGET = 'WIDGET_CLICKED';
@@ -31,9 +30,11 @@ export const KEY_COMMUNICATION_ENABLED = 'COMMUNICATION_ENABLED';
 export const KEY_DEVICE_DATA_REMOVED = 'DEVICE_DATA_REMOVED';
 export const KEY_INTERNAL_EVENTS = 'INTERNAL_EVENTS';
 export const KEY_UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS = 'UNSUBSCRIBED_DUE_TO_UNDEFINED_KEYS';
+export const KEY_NAMESPACES = 'NAMESPACES';  // application code to Pushwoosh instance namespace map, used by service worker
 
 // Local storage keys
 export const KEY_FAKE_PUSH_TOKEN = 'fakePushToken';
+export const KEY_WEBSDK_STATUS = 'pushwoosh-websdk-status';
 export const KEY_DEVICE_REGISTRATION_STATUS: string = 'deviceRegistrationStatus';
 export const KEY_SAFARI_PREVIOUS_PERMISSION = 'safariPreviousPermission';
 export const MANUAL_SET_LOGGER_LEVEL = 'PW_SET_LOGGER_LEVEL';
@@ -60,6 +61,11 @@ export const EVENT_ON_PERMISSION_PROMPT = 'onPermissionPrompt';
 export const EVENT_ON_PERMISSION_DENIED = 'onPermissionDenied';
 export const EVENT_ON_PERMISSION_GRANTED = 'onPermissionGranted';
 export const EVENT_ON_SW_INIT_ERROR = 'onSWInitError';
+export const EVENT_ON_INIT_ERROR = 'onInitError';
+export const EVENT_ON_CONSENT_CHANGE = 'onConsentChange';
+export const EVENT_ON_USER_CHANGED = 'onUserChanged';
+export const EVENT_ON_SESSION_START = 'onSessionStart';
+export const EVENT_ON_SESSION_END = 'onSessionEnd';
 export const EVENT_ON_PUSH_DELIVERY = 'onPushDelivery';
 export const EVENT_ON_NOTIFICATION_CLICK = 'onNotificationClick';
 export const EVENT_ON_NOTIFICATION_CLOSE = 'onNotificationClose';
@@ -69,6 +75,14 @@ export const EVENT_ON_UPDATE_INBOX_MESSAGES = 'onUpdateInboxMessages';
 export const EVENT_ON_SHOW_NOTIFICATION_PERMISSION_DIALOG = 'onShowNotificationPermissionDialog';
 export const EVENT_ON_HIDE_NOTIFICATION_PERMISSION_DIALOG = 'onHideNotificationPermissionDialog';
 
+// Events re-emitted in all tabs of Pushwoosh instance
+export const TABS_SHARED_EVENTS: Array<string> = [
+  EVENT_ON_SUBSCRIBE,
+  EVENT_ON_UNSUBSCRIBE,
+  EVENT_ON_UPDATE_INBOX_MESSAGES,
+  EVENT_ON_CHANGE_COMMUNICATION_ENABLED
+];
+
 // Post Events
 export const EVENT_SHOW_SUBSCRIBE_BUTTON = 'showSubscribeButton';
 export const EVENT_CLICK_SUBSCRIBE_BUTTON = 'clickSubscribeButton';
@@ -0,0 +1,24 @@
+import Pushwoosh from './Pushwoosh';
+import {IPushwooshPlugin} from './plugins/plugins.types';
+
+
+export interface IPushwooshConfig extends IInitParams, IPushwooshOptions {
+  plugins?: Array<IPushwooshPlugin>;  // optional modules, e.g. subscribeWidgetPlugin, inAppsPlugin
+}
+
+/**
+ * Create and initialize Pushwoosh instance without global window.Pushwoosh.
+ * Resolves when SDK is initialized, rejects if it can't be initialized.
+ * @param {IPushwooshConfig} config
+ * @returns {Promise<Pushwoosh>}
+ * @throws {PushwooshInitError}
+ */
+export async function createPushwoosh(config: IPushwooshConfig): Promise<Pushwoosh> {
+  const {namespace, plugins = [], ...initParams} = config;
+  const pw = new Pushwoosh({namespace});
+
+  plugins.forEach((plugin) => pw.use(plugin));
+  await pw.init(initParams);
+
+  return pw;
+}
@@ -28,6 +28,7 @@ import {
 import {keyValue} from '../storage';
 import Logger from '../logger';
 import Params from '../modules/data/Params';
+import {PushwooshInitError} from '../modules/PushwooshInitError';
 
 
 declare const Notification: {
@@ -81,11 +82,12 @@ class WorkerDriver implements IPWDriver {
     const serviceWorkerRegistration = await navigator.serviceWorker.ready;
     const subscription = await serviceWorkerRegistration.pushManager.getSubscription();
 
-    if (subscription && subscription.unsubscribe && isDeviceRegistered) {
+    // subscription of named instance is shared with other applications on the page
+    if (subscription && subscription.unsubscribe && isDeviceRegistered && !this.isShared) {
       await subscription.unsubscribe();
     }
 
-    const dataIsRemoved = await keyValue.get(KEY_DEVICE_DATA_REMOVED);
+    const dataIsRemoved = await this.paramsModule.store.get(KEY_DEVICE_DATA_REMOVED);
     if (dataIsRemoved) {
       Logger.write('error', 'Device data has been removed');
       return;
@@ -107,7 +109,7 @@ class WorkerDriver implements IPWDriver {
   }
 
   private async subscribe(registration: ServiceWorkerRegistration) {
-    const dataIsRemoved = await keyValue.get(KEY_DEVICE_DATA_REMOVED);
+    const dataIsRemoved = await this.paramsModule.store.get(KEY_DEVICE_DATA_REMOVED);
     if (dataIsRemoved) {
       Logger.write('error', 'Device data has been removed');
       return;
@@ -118,12 +120,20 @@ class WorkerDriver implements IPWDriver {
       options.applicationServerKey = urlB64ToUint8Array(this.params.applicationServerPublicKey);
     }
     const subscription = await registration.pushManager.subscribe(options);
-    await keyValue.set(MANUAL_UNSUBSCRIBE, 0);
+    await this.paramsModule.store.set(MANUAL_UNSUBSCRIBE, 0);
     this.emit(EVENT_ON_PERMISSION_GRANTED);
     await this.getFCMToken();
     return subscription;
   }
 
+  /**
+   * Subscription of named instance is shared with other applications on the page,
+   * so it is never removed, only device is unregistered.
+   */
+  private get isShared(): boolean {
+    return !!this.paramsModule.store.namespace;
+  }
+
   /**
    * Unsubscribe device
    * @returns {Promise<boolean>}
@@ -135,8 +145,8 @@ class WorkerDriver implements IPWDriver {
     }
     const subscription = await serviceWorkerRegistration.pushManager.getSubscription();
     if (subscription && subscription.unsubscribe) {
-      await keyValue.set(MANUAL_UNSUBSCRIBE, 1);
-      return subscription.unsubscribe();
+      await this.paramsModule.store.set(MANUAL_UNSUBSCRIBE, 1);
+      return this.isShared || subscription.unsubscribe();
     } else {
       return false;
     }
@@ -147,7 +157,7 @@ class WorkerDriver implements IPWDriver {
     if (!serviceWorkerRegistration) {
       const {
         [KEY_API_PARAMS]: savedApiParams
-      } = await keyValue.getAll();
+      } = await this.paramsModule.store.getAll();
       if (savedApiParams) {
         return savedApiParams;
       }
@@ -251,6 +261,36 @@ class WorkerDriver implements IPWDriver {
     return !!(pushSet && token);
   }
 
+  /**
+   * Chrome can't subscribe without sender id from manifest if application server key is not set
+   */
+  private get isSenderIdRequired(): boolean {
+    return <TPlatformChrome>platformChecker.platform == 11 && !this.params.applicationServerPublicKey;
+  }
+
+  /**
+   * Reject initialization in any tab before registration of service worker
+   * if sender id required for subscription is not found in manifest
+   * @returns {Promise<void>}
+   * @throws {PushwooshInitError}
+   */
+  async validateSenderId(): Promise<void> {
+    if (!this.isSenderIdRequired) {
+      return;
+    }
+
+    const manifest = document.querySelector('link[rel="manifest"]');
+    if (manifest === null) {
+      throw new PushwooshInitError('missing_sender_id', 'Link to manifest with gcm_sender_id is not found');
+    }
+
+    const response = await this.fetchManifest(manifest);
+    const manifestSenderID = response.status === 200 ? this.parseSenderId(await response.text()) : '';
+    if (!manifestSenderID) {
+      throw new PushwooshInitError('missing_sender_id', 'gcm_sender_id is not found in manifest.json');
+    }
+  }
+
   /**
    * Check sender id in manifest
    * @returns {Promise<boolean>}
@@ -262,12 +302,25 @@ class WorkerDriver implements IPWDriver {
       Logger.write('error', 'Link to manifest can not find');
       return false;
     }
+
+    return await this.fetchManifest(manifest)
+      .then((response: Response) => this.isSameManifest(response));
+  }
+
+  private fetchManifest(manifest: Element): Promise<Response> {
     const manifestUrl = manifest.getAttribute('href') || '';
 
-    return await fetch(manifestUrl, {
+    return fetch(manifestUrl, {
       method: 'get',
       headers: {'Content-Type': 'application/json;charset=UTF-8'}
-    }).then((response: Response) => this.isSameManifest(response));
+    });
+  }
+
+  private parseSenderId(manifest: string): string {
+    const regexpSenderId = /("|')?gcm_sender_id("|')?:\s*("|')?(\d+)("|')?/;
+    const match = manifest.match(regexpSenderId);
+
+    return match ? match[4] : '';
   }
 
   /**
@@ -277,16 +330,7 @@ class WorkerDriver implements IPWDriver {
    */
   async isSameManifest(response: Response) {
     if (response.status === 200) {
-      const manifest = await response.text();
-
-      const regexpSenderId = /("|')?gcm_sender_id("|')?:\s*("|')?(\d+)("|')?/;
-      const match = manifest.match(regexpSenderId);
-      let manifestSenderID = '';
-
-      if (match) {
-        manifestSenderID = match[4];
-      }
-
+      const manifestSenderID = this.parseSenderId(await response.text());
       const senderId = await keyValue.get(KEY_SENDER_ID);
 
       if (manifestSenderID && senderId !== manifestSenderID) {
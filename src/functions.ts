@@ -1,6 +1,5 @@
 import {keyValue} from './storage';
 import {
-  KEY_API_BASE_URL,
   KEY_FAKE_PUSH_TOKEN,
   KEY_FCM_SUBSCRIPTION,
   KEY_INTERNAL_EVENTS,
@@ -131,17 +130,6 @@ export function getPublicKey(pushSubscription: TPushSubscription) {
   return getSubsKey(pushSubscription, 'p256dh');
 }
 
-export function getPushwooshUrl(applicationCode: string) {
-  const url = applicationCode && !~applicationCode.indexOf('.')
-    ? `https://${applicationCode}.api.pushwoosh.com/json/1.3/`  // priority for caching
-    : 'https://cp.pushwoosh.com/json/1.3/';
-
-  // get specify base url for dedicated servers
-  return keyValue.get(KEY_API_BASE_URL)
-    .then((base_url = null) => base_url || url)
-    .catch(() => url);
-}
-
 export function patchConsole() {
   let method;
   const noop = function() {};
@@ -188,6 +176,9 @@ export function validateParams(params: any) {
   if (result.userId && result.userId === 'user_id') {
     delete result.userId;
   }
+
+  // custom transport can't be stored in indexedDB
+  delete result.transport;
   return result;
 }
 
@@ -231,3 +222,38 @@ export function generateUUID(): string {
     return (c === 'x' ? r : (r & 0x3 | 0x8)).toString(16);
   });
 }
+
+export function isApiInterceptorCommand(cmd: PWInput): cmd is PushApiInterceptorCallback {
+  return Array.isArray(cmd) && cmd[0] === 'addApiInterceptor';
+}
+
+/**
+ * Key of named Pushwoosh instance in localStorage
+ * @param key
+ * @param namespace - empty for default instance
+ */
+export function getNamespacedKey(key: string, namespace: string = ''): string {
+  return namespace ? `${namespace}/${key}` : key;
+}
+
+/**
+ * Check value of tag or event attribute by its type
+ * @param value
+ * @param type
+ */
+export function isValueOfType(value: any, type: TTagType): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Math.floor(value) === value;
+    case 'price':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'list':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'date':
+      return typeof value === 'string' || value instanceof Date;
+    default:
+      return typeof value === 'string';
+  }
+}
@@ -1,5 +1,17 @@
 import 'whatwg-fetch';
-export {default as Pushwoosh} from './Pushwoosh';
-import './SubscribeWidget';
-import './inboxWidget';
-import './subscribePopup';
+import PushwooshBase from './Pushwoosh';
+import {defaultPlugins} from './plugins';
+
+export * from './module';
+
+/**
+ * Pushwoosh of CommonJS build shows widgets and modules enabled by init params as in previous versions.
+ * Default plugins are added before init, so plugins working without pushes start in any browser.
+ * ES module entry adds only the plugins passed by the application.
+ */
+export class Pushwoosh extends PushwooshBase {
+  constructor(options?: IPushwooshOptions) {
+    super(options);
+    defaultPlugins.forEach((plugin) => this.use(plugin));
+  }
+}
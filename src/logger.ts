@@ -41,7 +41,7 @@ Object.keys(levels).forEach((levelName: string) => {
   };
 });
 
-export function logAndThrowError(error: string) {
+export function logAndThrowError(error: string): never {
   const logText = new Error(error);
   Logger.write('error', logText, 'logAndThrowError');
   throw logText;
@@ -11,9 +11,14 @@ import EventEmitter from '../EventEmitter';
 import {EVENT_ON_UPDATE_INBOX_MESSAGES} from '../constants';
 
 
+/**
+ * Inbox messages of Pushwoosh instance.
+ * Messages of all instances are kept in one store and separated by namespace field.
+ */
 export default class InboxMessages {
   storage: Storage;
   storeName: TInboxMessagesStoreName;
+  namespace: string;
   params: Params;
   inboxParams: InboxParams;
   dateModule: DateModule;
@@ -30,6 +35,7 @@ export default class InboxMessages {
   ) {
     this.storage = storage;
     this.storeName = 'inboxMessages';
+    this.namespace = params.store.namespace;
 
     this.params = params;
     this.inboxParams = inboxParams;
@@ -83,7 +89,7 @@ export default class InboxMessages {
    * Create or update inbox message
    */
   putMessage(message: IInboxMessage): Promise<string> {
-    return <Promise<string>>this.storage.put(this.storeName, message);
+    return <Promise<string>>this.storage.put(this.storeName, {...message, namespace: this.namespace});
   }
 
   /**
@@ -110,8 +116,7 @@ export default class InboxMessages {
   async deleteExpiredMessages(): Promise<Array<void>> {
     this.dateModule.date = new Date();
     const upperBound = this.dateModule.getTimestamp().toString();
-    const allMessages = await this.storage
-      .getAll<IInboxMessage>(this.storeName);
+    const allMessages = await this.getMessages();
     const codesToDelete = allMessages
       .filter((msg: IInboxMessage) => msg.rt > upperBound)
       .map(msg => msg.inbox_id);
@@ -121,17 +126,27 @@ export default class InboxMessages {
   /**
    * Get message by code
    * @param code - inbox_id
+   * @returns undefined if there is no message or it belongs to other instance
    */
-  getMessage(code: string): Promise<IInboxMessage> {
-    return this.storage.get<IInboxMessage, IInboxMessage>(this.storeName, code);
+  async getMessage(code: string): Promise<IInboxMessage | undefined> {
+    const message = await this.storage.get<IInboxMessage, undefined>(this.storeName, code);
+    return message && this.isOwnMessage(message) ? message : undefined;
   }
 
   /**
-   * Get all read messages
+   * Get all messages of the instance
    */
-  async getReadOpenMessages(): Promise<Array<IInboxMessage>> {
+  async getMessages(): Promise<Array<IInboxMessage>> {
     const allMessages = await this.storage
       .getAll<IInboxMessage>(this.storeName);
+    return allMessages.filter((msg: IInboxMessage) => this.isOwnMessage(msg));
+  }
+
+  /**
+   * Get all read messages
+   */
+  async getReadOpenMessages(): Promise<Array<IInboxMessage>> {
+    const allMessages = await this.getMessages();
     return allMessages
       .filter((msg: IInboxMessage) => <TInboxMessageStatusRead>msg.status === 2 || <TInboxMessageStatusOpen>msg.status === 3);
   }
@@ -140,8 +155,7 @@ export default class InboxMessages {
    * Get all unread messages
    */
   async getDeliveredMessages(): Promise<Array<IInboxMessage>> {
-    const allMessages = await this.storage
-      .getAll<IInboxMessage>(this.storeName);
+    const allMessages = await this.getMessages();
     return allMessages
       .filter((msg: IInboxMessage) => <TInboxMessageStatusDelivered>msg.status === 1)
   }
@@ -150,17 +164,16 @@ export default class InboxMessages {
    * All messages count
    */
   async messagesCount(): Promise<number> {
-    return this.storage.count(this.storeName);
+    const allMessages = await this.getMessages();
+    return allMessages.length;
   }
 
   /**
    * Get count of messages with status "Delivered"
    */
   async getDeliveredMessagesCount(): Promise<number> {
-    const deliveredStatus: TInboxMessageStatusDelivered = 1;
-    const statusIndexName: TInboxMessagesIDBStatusIndex = 'status';
-    return this.storage
-      .countByIndex(this.storeName, statusIndexName, deliveredStatus);
+    const deliveredMessages = await this.getDeliveredMessages();
+    return deliveredMessages.length;
   }
 
   /**
@@ -168,20 +181,31 @@ export default class InboxMessages {
    */
   async getReadMessagesCount(): Promise<number> {
     const readStatus: TInboxMessageStatusRead = 2;
-    const statusIndexName: TInboxMessagesIDBStatusIndex = 'status';
-    return this.storage
-      .countByIndex(this.storeName, statusIndexName, readStatus);
+    const allMessages = await this.getMessages();
+    return allMessages
+      .filter((msg: IInboxMessage) => msg.status === readStatus)
+      .length;
   }
 
   /**
    * Get count of messages with status "Delivered" and "Read"
    */
   async getDeliveredReadMessagesCount(): Promise<number> {
-    const [readStatus, openStatus]: TReadInboxMessagesStatusRange = [2, 3];
-    const keyRange = IDBKeyRange.bound(readStatus, openStatus);
-    const statusIndexName: TInboxMessagesIDBStatusIndex = 'status';
+    const readOpenMessages = await this.getReadOpenMessages();
+    return readOpenMessages.length;
+  }
+
+  /**
+   * Delete all local messages and request params, e.g. messages of the previous user
+   */
+  async clear(): Promise<void> {
+    const allMessages = await this.getMessages();
+    await this.deleteMessages(allMessages.map((msg: IInboxMessage) => msg.inbox_id));
+    await this.inboxParams.reset();
+  }
 
-    return this.storage.countByIndex(this.storeName, statusIndexName, keyRange);
+  private isOwnMessage(message: IInboxMessage): boolean {
+    return (message.namespace || '') === this.namespace;
   }
 
   /**
@@ -195,7 +219,13 @@ export default class InboxMessages {
     await this.putServerMessages(response.messages);
 
     if (eventEmitter) {
-      eventEmitter.emit(EVENT_ON_UPDATE_INBOX_MESSAGES, new InboxMessagesPublic());
+      eventEmitter.emit(EVENT_ON_UPDATE_INBOX_MESSAGES, new InboxMessagesPublic(
+        this,
+        this.dateModule,
+        this.apiClient,
+        this.payloadBuilder,
+        this.params
+      ));
     }
   }
 }
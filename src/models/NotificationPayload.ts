@@ -95,10 +95,32 @@ export default class NotificationPayload {
     return this.payload.l ? unescape(this.payload.l) : '/';
   }
 
+  get applicationCode(): string {
+    return this.payload.application || '';
+  }
+
   get inboxId(): string {
     return this.payload.pw_inbox || '';
   }
 
+  get clickRouting(): IClickRoutingParams | undefined {
+    return this.payload.click_routing
+      ? parseSerializedNotificationParams(this.payload.click_routing)
+      : undefined;
+  }
+
+  get threadId(): string {
+    return this.payload.thread_id || this.campaignCode;
+  }
+
+  get groupMode(): TNotificationGroupingMode | undefined {
+    return this.payload.group_mode;
+  }
+
+  get isSnoozed(): boolean {
+    return this.payload.pw_snoozed === '1';
+  }
+
   get inboxParams(): INotificationPayloadInboxParams {
     // Parse inbox params
     if (this.payload.inbox_params) {
@@ -140,6 +162,11 @@ export default class NotificationPayload {
       buttons,
       pw_inbox,
       inbox_params,
+      application,
+      click_routing,
+      thread_id,
+      group_mode,
+      pw_snoozed,
       ...rootParams
     } = this.payload;
     return rootParams;
@@ -180,18 +207,20 @@ export default class NotificationPayload {
       body: this.body,
       icon,
       requireInteraction,
-      tag: JSON.stringify({
-        url: this.link,
-        messageHash: this.messageHash,
-        customData: this.customData
-      }),
+      tag: this.code,
       data: {
         code: this.code,
         buttons,
         duration: this.duration,
         image: this.image,
         campaignCode: this.campaignCode,
-        inboxId: this.inboxId
+        inboxId: this.inboxId,
+        namespace: this.params.store.namespace,
+        clickRouting: this.clickRouting,
+        url: this.link,
+        messageHash: this.messageHash,
+        customData: this.customData,
+        snoozed: this.isSnoozed
       },
       silent: this.silent,
       actions: buttons,
@@ -220,7 +249,8 @@ export default class NotificationPayload {
       action_type: actionType,
       action_params: JSON.stringify({
         l: this.link
-      })
+      }),
+      hash: this.messageHash
     }
   }
 }
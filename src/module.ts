@@ -0,0 +1,26 @@
+// ES module entry has no side effects, optional modules are added by plugins only
+export {default as Pushwoosh} from './Pushwoosh';
+export {createPushwoosh, IPushwooshConfig} from './createPushwoosh';
+export {
+  subscribeWidgetPlugin,
+  inboxWidgetPlugin,
+  subscribePopupPlugin,
+  facebookPlugin,
+  inAppsPlugin,
+  IPushwooshPlugin
+} from './plugins';
+export {PushwooshInitError} from './modules/PushwooshInitError';
+export {PushwooshTagError} from './modules/Tags/PushwooshTagError';
+export {PushwooshEventError} from './modules/EventsValidator/PushwooshEventError';
+export {defineEventsSchema} from './modules/EventsValidator/EventsValidator';
+export {default as FetchTransport} from './modules/api/transports/FetchTransport';
+export {default as XHRTransport} from './modules/api/transports/XHRTransport';
+export {default as MockTransport} from './modules/api/transports/MockTransport';
+export {
+  PushwooshApiError,
+  PushwooshNetworkError,
+  PushwooshHttpError,
+  PushwooshStatusCodeError,
+  PushwooshDataRemovedError,
+  PushwooshCommunicationDisabledError
+} from './modules/api/PushwooshApiError';
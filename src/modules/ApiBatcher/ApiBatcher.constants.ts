@@ -0,0 +1,2 @@
+export const API_BATCHER_DEFAULT_DELAY = 1000;  // ms, window to collect calls
+export const API_BATCHER_DEFAULT_MAX_SIZE = 50;  // events count, collected events are sent immediately when reached
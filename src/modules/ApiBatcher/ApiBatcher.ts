@@ -0,0 +1,249 @@
+import Params from '../data/Params';
+import Logger from '../../logger';
+import {hasCustomTransport} from '../api/apiCall';
+import {ApiInterceptors} from '../api/ApiInterceptors';
+
+import {
+  API_BATCHER_DEFAULT_DELAY,
+  API_BATCHER_DEFAULT_MAX_SIZE
+} from './ApiBatcher.constants';
+
+import {
+  IApiBatcherApi,
+  IApiBatcherEvent,
+  IApiBatcherDeferred
+} from './ApiBatcher.types';
+
+
+interface IApiBatch {
+  tags: {[key: string]: any};
+  tagsDeferreds: Array<IApiBatcherDeferred>;
+  events: Array<IApiBatcherEvent>;
+  eventsDeferreds: Array<IApiBatcherDeferred>;
+}
+
+/**
+ * Groups setTags and postEvent calls made within the time window.
+ * Tags are merged key by key and sent by one setTags call,
+ * events are sent by postEvent calls at the end of the window.
+ * Pushwoosh API has no method for several events, so batching delays them but doesn't reduce requests.
+ * Not sent calls are delivered by navigator.sendBeacon on pagehide,
+ * such calls resolve with undefined as beacon response is not available.
+ * Beacon bypasses transport and interceptors, so it is used only if the instance has none of them.
+ */
+export class ApiBatcher {
+  private readonly api: IApiBatcherApi;
+  private readonly paramsModule: Params;
+  private readonly delay: number;
+  private readonly maxSize: number;
+  private batch: IApiBatch = ApiBatcher.createBatch();
+  private flushTimeout: any;
+  private beacon?: {apiUrl: string, params: {[key: string]: any}};
+
+  constructor(
+    api: IApiBatcherApi,
+    options: IBatchingParams = {},
+    paramsModule: Params = new Params()
+  ) {
+    this.api = api;
+    this.paramsModule = paramsModule;
+    this.delay = options.delay !== undefined ? options.delay : API_BATCHER_DEFAULT_DELAY;
+    this.maxSize = options.maxSize || API_BATCHER_DEFAULT_MAX_SIZE;
+
+    this.onPageHide = this.onPageHide.bind(this);
+    window.addEventListener('pagehide', this.onPageHide);
+  }
+
+  private static createBatch(): IApiBatch {
+    return {
+      tags: {},
+      tagsDeferreds: [],
+      events: [],
+      eventsDeferreds: []
+    };
+  }
+
+  /**
+   * Add tags to the batch. Later value of the same tag overrides the earlier one.
+   * @param tags
+   * @returns {Promise<any>} setTags response
+   */
+  public setTags(tags: {[key: string]: any}): Promise<any> {
+    this.batch.tags = {
+      ...this.batch.tags,
+      ...tags
+    };
+
+    return this.add(this.batch.tagsDeferreds);
+  }
+
+  /**
+   * Add event to the batch
+   * @param event
+   * @returns {Promise<any>} postEvent response, e.g. {code: 'XXXXX-XXXXX'}
+   */
+  public postEvent(event: IApiBatcherEvent): Promise<any> {
+    this.batch.events.push(event);
+    const promise = this.add(this.batch.eventsDeferreds);
+
+    if (this.batch.events.length >= this.maxSize) {
+      this.flush();
+    }
+
+    return promise;
+  }
+
+  /**
+   * Send all collected calls immediately
+   */
+  public async flush(): Promise<void> {
+    const batch = this.takeBatch();
+
+    await Promise.all([
+      this.sendTags(batch),
+      this.sendEvents(batch)
+    ]);
+  }
+
+  /**
+   * Stop the batcher, not sent calls are rejected
+   */
+  public destroy(): void {
+    window.removeEventListener('pagehide', this.onPageHide);
+
+    const {tagsDeferreds, eventsDeferreds} = this.takeBatch();
+    const error = new Error('Batching is stopped');
+    [...tagsDeferreds, ...eventsDeferreds].forEach(({reject}) => reject(error));
+  }
+
+  private add(deferreds: Array<IApiBatcherDeferred>): Promise<any> {
+    const promise = new Promise<any>((resolve, reject) => {
+      deferreds.push({resolve, reject});
+    });
+
+    this.schedule();
+
+    return promise;
+  }
+
+  /**
+   * Open the time window on the first call
+   */
+  private schedule(): void {
+    if (this.flushTimeout) {
+      return;
+    }
+
+    this.flushTimeout = setTimeout(() => this.flush(), this.delay);
+    this.prepareBeacon();
+  }
+
+  /**
+   * Get current batch and start the new one
+   */
+  private takeBatch(): IApiBatch {
+    clearTimeout(this.flushTimeout);
+    this.flushTimeout = undefined;
+
+    const {batch} = this;
+    this.batch = ApiBatcher.createBatch();
+
+    return batch;
+  }
+
+  private async sendTags({tags, tagsDeferreds}: IApiBatch): Promise<void> {
+    if (!tagsDeferreds.length) {
+      return;
+    }
+
+    try {
+      const response = await this.api.callAPI('setTags', {tags});
+      tagsDeferreds.forEach(({resolve}) => resolve(response));
+    } catch (error) {
+      tagsDeferreds.forEach(({reject}) => reject(error));
+    }
+  }
+
+  private async sendEvents({events, eventsDeferreds}: IApiBatch): Promise<void> {
+    await Promise.all(events.map((event, index) => this.sendEvent(event, eventsDeferreds[index])));
+  }
+
+  private async sendEvent(event: IApiBatcherEvent, {resolve, reject}: IApiBatcherDeferred): Promise<void> {
+    try {
+      resolve(await this.api.callAPI('postEvent', event));
+    } catch (error) {
+      reject(error);
+    }
+  }
+
+  /**
+   * Resolve api url and request params while page is alive,
+   * because there is no time for async calls on pagehide.
+   */
+  private async prepareBeacon(): Promise<void> {
+    try {
+      const [apiUrl, params] = await Promise.all([
+        this.paramsModule.apiUrl,
+        this.api.getRequestParams()
+      ]);
+
+      this.beacon = params && {apiUrl, params};
+    } catch (error) {
+      Logger.write('error', error, 'Can\'t prepare api batch beacon');
+    }
+  }
+
+  /**
+   * Send call by navigator.sendBeacon. Response is not available.
+   * @returns {boolean} true if browser has queued the request
+   */
+  private sendBeacon(methodName: string, methodParams: {[key: string]: any}): boolean {
+    if (!this.beacon || typeof navigator.sendBeacon !== 'function' || !this.isDefaultPipeline()) {
+      return false;
+    }
+
+    const {apiUrl, params} = this.beacon;
+    const request = {
+      ...methodParams,
+      ...params
+    };
+
+    try {
+      return navigator.sendBeacon(`${apiUrl}${methodName}`, JSON.stringify({request}));
+    } catch (error) {
+      Logger.write('error', error, `Can't send ${methodName} beacon`);
+      return false;
+    }
+  }
+
+  /**
+   * Calls of the instance are not changed by custom transport or interceptors
+   */
+  private isDefaultPipeline(): boolean {
+    const {namespace} = this.paramsModule.store;
+
+    return !hasCustomTransport(namespace) && ApiInterceptors.getInstance(namespace).isEmpty();
+  }
+
+  private onPageHide(): void {
+    const batch = this.takeBatch();
+
+    if (batch.tagsDeferreds.length) {
+      if (this.sendBeacon('setTags', {tags: batch.tags})) {
+        batch.tagsDeferreds.forEach(({resolve}) => resolve(undefined));
+      } else {
+        this.sendTags(batch);
+      }
+    }
+
+    batch.events.forEach((event, index) => {
+      const deferred = batch.eventsDeferreds[index];
+
+      if (this.sendBeacon('postEvent', event)) {
+        deferred.resolve(undefined);
+      } else {
+        this.sendEvent(event, deferred);
+      }
+    });
+  }
+}
@@ -0,0 +1,16 @@
+export interface IApiBatcherApi {
+  callAPI(methodName: string, methodParams?: any): Promise<any>;
+  getRequestParams(methodParams?: any): Promise<{[key: string]: any} | undefined>;
+}
+
+export interface IApiBatcherEvent {
+  event: string;
+  attributes: {[key: string]: any};
+  timestampUTC: number;
+  timestampCurrent: number;
+}
+
+export interface IApiBatcherDeferred {
+  resolve: (response: any) => void;
+  reject: (error: any) => void;
+}
@@ -0,0 +1,25 @@
+// methods whose failed calls are stored and re-sent later
+export const API_QUEUE_RETRYABLE_METHODS = [
+  'registerDevice',
+  'setTags',
+  'postEvent',
+  'pushStat',
+  'messageDeliveryEvent',
+  'registerUser',
+  'applicationOpen',
+  'triggerEvent'
+];
+
+// delivery and click statistics
+export const API_QUEUE_STATISTICS_METHODS = [
+  'pushStat',
+  'messageDeliveryEvent'
+];
+
+// background sync tag for replay stored calls in the service worker
+export const API_QUEUE_SYNC_TAG = 'pushwoosh-api-queue';
+
+export const API_QUEUE_MAX_ATTEMPTS = 10;
+export const API_QUEUE_RETRY_BASE_DELAY = 5000;  // ms, doubled on every failed attempt
+export const API_QUEUE_RETRY_MAX_DELAY = 3600000;  // ms
+export const API_QUEUE_LOCK_PERIOD = 30000;  // ms, item is not sent by other contexts while locked
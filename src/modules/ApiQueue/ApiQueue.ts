@@ -0,0 +1,266 @@
+import Storage from '../storage/Storage';
+import doApiCall from '../api/apiCall';
+import Logger from '../../logger';
+import {getKeyValue} from '../../storage';
+import Params from '../data/Params';
+import {KEY_DEVICE_DATA_REMOVED} from '../../constants';
+import {isRetryableApiError} from '../api/PushwooshApiError';
+import {STORE_NAME_API_QUEUE} from '../storage/migrations/constants';
+
+import {
+  API_QUEUE_RETRYABLE_METHODS,
+  API_QUEUE_STATISTICS_METHODS,
+  API_QUEUE_SYNC_TAG,
+  API_QUEUE_MAX_ATTEMPTS,
+  API_QUEUE_RETRY_BASE_DELAY,
+  API_QUEUE_RETRY_MAX_DELAY,
+  API_QUEUE_LOCK_PERIOD
+} from './ApiQueue.constants';
+
+import {IApiQueueItem} from './ApiQueue.types';
+
+
+/**
+ * Persistent queue of failed api calls.
+ * Calls are stored in indexedDB and re-sent with exponential backoff
+ * from the page and from the service worker in the order they were failed.
+ */
+export class ApiQueue {
+  private static instance: ApiQueue;
+  private readonly storage: Storage;
+  private readonly doApiMethod: typeof doApiCall;
+  private isFlushing: boolean = false;
+  private flushTimeout: any;
+
+  constructor(
+    storage: Storage = new Storage(),
+    doApiMethod: typeof doApiCall = doApiCall
+  ) {
+    this.storage = storage;
+    this.doApiMethod = doApiMethod;
+  }
+
+  public static getInstance(): ApiQueue {
+    if (!ApiQueue.instance) {
+      ApiQueue.instance = new ApiQueue();
+    }
+
+    return ApiQueue.instance;
+  }
+
+  /**
+   * Is failed call of the method can be re-sent later
+   * @param methodName
+   */
+  public isRetryable(methodName: string): boolean {
+    return API_QUEUE_RETRYABLE_METHODS.indexOf(methodName) !== -1;
+  }
+
+  /**
+   * Store failed call
+   * @param methodName
+   * @param request - full request payload
+   * @param namespace - namespace of Pushwoosh instance
+   */
+  public async push(methodName: string, request: {[key: string]: any}, namespace: string = ''): Promise<void> {
+    const now = Date.now();
+    const item: IApiQueueItem = {
+      methodName,
+      namespace,
+      request,
+      attempts: 1,
+      createdAt: now,
+      nextAttemptAt: now + this.getRetryDelay(1),
+      lockedUntil: 0
+    };
+
+    try {
+      await this.storage.put(STORE_NAME_API_QUEUE, item);
+      await this.scheduleFlush();
+    } catch (error) {
+      Logger.write('error', error, `Can't put ${methodName} call to api queue`);
+      return;
+    }
+
+    await this.registerSync();
+  }
+
+  /**
+   * Count of stored calls
+   */
+  public count(): Promise<number> {
+    return this.storage.count(STORE_NAME_API_QUEUE);
+  }
+
+  /**
+   * Count of stored delivery and click statistics calls
+   */
+  public async statisticsCount(): Promise<number> {
+    const counts = await Promise.all(API_QUEUE_STATISTICS_METHODS.map((methodName) => (
+      this.storage.countByIndex(STORE_NAME_API_QUEUE, 'methodName', methodName)
+    )));
+
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Background sync handler.
+   * Rejects if statistics calls are still stored, so browser will fire sync event again later.
+   * Other calls wait for the next page visit.
+   */
+  public async sync(): Promise<void> {
+    await this.flush(true);
+
+    const count = await this.statisticsCount();
+    if (count > 0) {
+      throw new Error(`${count} statistics calls are still not sent`);
+    }
+  }
+
+  /**
+   * Re-send stored calls in order.
+   * @param force - ignore backoff delay, e.g. when connection is back
+   */
+  public async flush(force: boolean = false): Promise<void> {
+    if (this.isFlushing) {
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      await this.sendItems(force);
+    } catch (error) {
+      Logger.write('error', error, 'Api queue flush has been failed');
+    } finally {
+      this.isFlushing = false;
+    }
+
+    await this.scheduleFlush();
+  }
+
+  /**
+   * Remove stored calls of the instance, calls of all instances if namespace is not passed
+   * @param namespace - empty for default instance
+   */
+  public async clear(namespace?: string): Promise<void> {
+    const items = await this.storage.getAll<IApiQueueItem>(STORE_NAME_API_QUEUE);
+    const removedItems = namespace === undefined
+      ? items
+      : items.filter((item) => (item.namespace || '') === namespace);
+
+    await Promise.all(removedItems.map((item) => this.storage.delete(STORE_NAME_API_QUEUE, <number>item.id)));
+  }
+
+  /**
+   * Send items one by one. Stops on the first failed item,
+   * so the next calls can't overtake it.
+   * @param force
+   */
+  private async sendItems(force: boolean): Promise<void> {
+    const items = await this.storage.getAll<IApiQueueItem>(STORE_NAME_API_QUEUE);
+
+    for (const item of items) {
+      const now = Date.now();
+      const store = getKeyValue(item.namespace);
+
+      // can't call any api methods if device data is removed
+      const dataIsRemoved = await store.get(KEY_DEVICE_DATA_REMOVED);
+      if (dataIsRemoved) {
+        await this.storage.delete(STORE_NAME_API_QUEUE, <number>item.id);
+        continue;
+      }
+
+      // item is sending from other tab or service worker
+      if (item.lockedUntil > now) {
+        return;
+      }
+
+      if (!force && item.nextAttemptAt > now) {
+        return;
+      }
+
+      item.lockedUntil = now + API_QUEUE_LOCK_PERIOD;
+      await this.storage.put(STORE_NAME_API_QUEUE, item);
+
+      try {
+        await this.doApiMethod(item.methodName, item.request, new Params(undefined, store));
+        await this.storage.delete(STORE_NAME_API_QUEUE, <number>item.id);
+      } catch (error) {
+        const isDropped = await this.onItemFailure(item, error);
+        if (!isDropped) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Postpone failed item or drop it when attempts are exhausted
+   * or error is permanent, e.g. invalid request
+   * @param item
+   * @param error
+   * @returns {Promise<boolean>} true if item has been dropped
+   */
+  private async onItemFailure(item: IApiQueueItem, error: any): Promise<boolean> {
+    if (!isRetryableApiError(error)) {
+      Logger.write('error', error, `${item.methodName} call has been dropped`);
+      await this.storage.delete(STORE_NAME_API_QUEUE, <number>item.id);
+      return true;
+    }
+
+    if (item.attempts >= API_QUEUE_MAX_ATTEMPTS) {
+      Logger.write('error', error, `${item.methodName} call has been dropped after ${item.attempts} attempts`);
+      await this.storage.delete(STORE_NAME_API_QUEUE, <number>item.id);
+      return true;
+    }
+
+    item.attempts += 1;
+    item.nextAttemptAt = Date.now() + this.getRetryDelay(item.attempts);
+    item.lockedUntil = 0;
+    await this.storage.put(STORE_NAME_API_QUEUE, item);
+    return false;
+  }
+
+  /**
+   * Exponential backoff delay
+   * @param attempts - count of failed attempts
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(API_QUEUE_RETRY_BASE_DELAY * Math.pow(2, attempts - 1), API_QUEUE_RETRY_MAX_DELAY);
+  }
+
+  /**
+   * Ask browser to fire background sync event in the service worker when connection is back.
+   * Works in the service worker and on the page with registered service worker.
+   */
+  private async registerSync(): Promise<void> {
+    try {
+      const registration: ServiceWorkerRegistration | undefined = typeof window === 'undefined'
+        ? (self as ServiceWorkerGlobalScope).registration
+        : navigator.serviceWorker && await navigator.serviceWorker.getRegistration();
+
+      if (registration && 'sync' in registration) {
+        await registration.sync.register(API_QUEUE_SYNC_TAG);
+      }
+    } catch (error) {
+      Logger.write('info', error, 'Background sync is not available');
+    }
+  }
+
+  /**
+   * Plan next flush on the time when the first item can be sent
+   */
+  private async scheduleFlush(): Promise<void> {
+    clearTimeout(this.flushTimeout);
+
+    const items = await this.storage.getAll<IApiQueueItem>(STORE_NAME_API_QUEUE);
+    if (!items.length) {
+      return;
+    }
+
+    const [first] = items;
+    const delay = Math.max(first.nextAttemptAt, first.lockedUntil) - Date.now();
+
+    this.flushTimeout = setTimeout(() => this.flush(), Math.max(delay, 0));
+  }
+}
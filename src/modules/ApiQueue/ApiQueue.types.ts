@@ -0,0 +1,10 @@
+export interface IApiQueueItem {
+  id?: number;  // autoincrement key, defines the delivery order
+  methodName: string;
+  namespace?: string;  // namespace of Pushwoosh instance made the call
+  request: {[key: string]: any};
+  attempts: number;
+  createdAt: number;  // timestamp ms
+  nextAttemptAt: number;  // timestamp ms
+  lockedUntil: number;  // timestamp ms
+}
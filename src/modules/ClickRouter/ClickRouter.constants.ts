@@ -0,0 +1,5 @@
+export const CLICK_ROUTING_MODE_EXACT = 'exact';  // focus window with the same url, default
+export const CLICK_ROUTING_MODE_FOCUS_ANY = 'focusAny';  // focus any window and navigate it
+export const CLICK_ROUTING_MODE_PREFIX = 'prefix';  // focus window which url starts with pattern and navigate it
+export const CLICK_ROUTING_MODE_REGEX = 'regex';  // focus window which url matches pattern and navigate it
+export const CLICK_ROUTING_MODE_POST_MESSAGE = 'postMessage';  // focus any window without navigation, page gets click by postMessage
@@ -0,0 +1,100 @@
+import {
+  CLICK_ROUTING_MODE_EXACT,
+  CLICK_ROUTING_MODE_FOCUS_ANY,
+  CLICK_ROUTING_MODE_PREFIX,
+  CLICK_ROUTING_MODE_REGEX,
+  CLICK_ROUTING_MODE_POST_MESSAGE
+} from './ClickRouter.constants';
+
+
+/**
+ * Chooses open window for the url of clicked notification
+ */
+export class ClickRouter {
+  private readonly mode: TClickRoutingMode;
+  private readonly pattern: string;
+
+  constructor({mode = CLICK_ROUTING_MODE_EXACT, pattern = ''}: IClickRoutingParams = {}) {
+    this.mode = mode;
+    this.pattern = pattern;
+  }
+
+  /**
+   * Focus and navigate matched window
+   * @param clientList - window clients of the service worker
+   * @param url
+   * @returns {Promise<boolean>} false if there is no matched window and new one should be opened
+   */
+  public async route(clientList: Array<TServiceWorkerClientExtended>, url: string): Promise<boolean> {
+    if (this.mode === CLICK_ROUTING_MODE_EXACT) {
+      return this.routeExact(clientList, url);
+    }
+
+    const client = this.findClient(clientList);
+    if (!client) {
+      return false;
+    }
+
+    await client.focus();
+
+    // page of postMessage mode handles click by onNotificationClick event
+    if (this.mode !== CLICK_ROUTING_MODE_POST_MESSAGE && client.url !== this.resolveUrl(url)) {
+      await client.navigate(url);
+    }
+
+    return true;
+  }
+
+  private routeExact(clientList: Array<TServiceWorkerClientExtended>, url: string): boolean {
+    const isExistFocusedWindow = clientList.some((client: TServiceWorkerClientExtended): boolean => client.focused);
+    const hasNewUrl = clientList.every((client: TServiceWorkerClientExtended): boolean => client.url !== url && url !== '/');
+
+    if (isExistFocusedWindow && !hasNewUrl) {
+      return true;
+    }
+
+    for (let index = clientList.length - 1; index > -1; --index) {
+      const client = clientList[index];
+      if ((url === client.url || url === '/') && 'focus' in client) {
+        client.focus();
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Matched window, focused one is preferred
+   * @param clientList
+   */
+  private findClient(clientList: Array<TServiceWorkerClientExtended>): TServiceWorkerClientExtended | undefined {
+    const matchedClients = clientList.filter((client) => this.isMatched(client.url));
+
+    return matchedClients.filter((client) => client.focused)[0]
+      || matchedClients[matchedClients.length - 1];
+  }
+
+  private isMatched(clientUrl: string): boolean {
+    switch (this.mode) {
+      case CLICK_ROUTING_MODE_PREFIX:
+        return clientUrl.indexOf(this.resolveUrl(this.pattern)) === 0;
+      case CLICK_ROUTING_MODE_REGEX:
+        try {
+          return new RegExp(this.pattern).test(clientUrl);
+        } catch (error) {
+          return false;
+        }
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Absolute url, relative urls are resolved by service worker origin
+   * @param url
+   */
+  private resolveUrl(url: string): string {
+    return new URL(url, self.location.origin).href;
+  }
+}
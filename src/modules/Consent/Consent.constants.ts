@@ -0,0 +1,2 @@
+// localStorage key, consent is checked before any IndexedDB access
+export const KEY_CONSENT = 'pushwoosh-consent';
@@ -0,0 +1,42 @@
+import {getNamespacedKey} from '../../functions';
+
+import {KEY_CONSENT} from './Consent.constants';
+import {IConsentState} from './Consent.types';
+
+
+/**
+ * User consent to Pushwoosh communication for consentRequired init mode.
+ * Stored in localStorage, so checking it doesn't create IndexedDB database.
+ */
+export class Consent {
+  private readonly key: string;
+
+  constructor(namespace: string = '') {
+    this.key = getNamespacedKey(KEY_CONSENT, namespace);
+  }
+
+  public get(): IConsentState {
+    try {
+      const {granted = false, timestamp = null} = JSON.parse(localStorage.getItem(this.key) || '{}');
+      return {granted, timestamp};
+    } catch (error) {
+      return {granted: false, timestamp: null};
+    }
+  }
+
+  public grant(): IConsentState {
+    const state = {
+      granted: true,
+      timestamp: Date.now()
+    };
+    localStorage.setItem(this.key, JSON.stringify(state));
+
+    return state;
+  }
+
+  public clear(): IConsentState {
+    localStorage.removeItem(this.key);
+
+    return {granted: false, timestamp: null};
+  }
+}
@@ -0,0 +1,4 @@
+export interface IConsentState {
+  granted: boolean;
+  timestamp: number | null;  // ms, time of granting
+}
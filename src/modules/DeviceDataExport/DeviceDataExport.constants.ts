@@ -0,0 +1,21 @@
+// keys of push subscription credentials, their values are not exported
+export const DEVICE_DATA_EXPORT_SECRET_KEYS = [
+  'pushToken',
+  'publicKey',
+  'authToken',
+  'fcmToken',
+  'fcmPushSet',
+  'token',
+  'pushSet'
+];
+
+// the same credentials in api requests written to log as JSON strings
+export const DEVICE_DATA_EXPORT_SECRET_REQUEST_PARAMS = [
+  'push_token',
+  'public_key',
+  'auth_token',
+  'fcm_token',
+  'fcm_push_set'
+];
+
+export const DEVICE_DATA_EXPORT_REDACTED = '[REDACTED]';
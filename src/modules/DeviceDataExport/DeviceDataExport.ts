@@ -0,0 +1,102 @@
+import InboxMessagesModel from '../../models/InboxMessages';
+import Logger from '../../logger';
+import {getVersion} from '../../functions';
+import {
+  keyValue,
+  TKeyValue,
+  log as logStorage,
+  message as messageStorage
+} from '../../storage';
+
+import {
+  DEVICE_DATA_EXPORT_SECRET_KEYS,
+  DEVICE_DATA_EXPORT_SECRET_REQUEST_PARAMS,
+  DEVICE_DATA_EXPORT_REDACTED
+} from './DeviceDataExport.constants';
+import {IDeviceDataExport} from './DeviceDataExport.types';
+
+
+/**
+ * Collects all locally stored data of the device and its tags from Pushwoosh
+ * for GDPR subject-access requests. Push subscription credentials are redacted.
+ * Key values and inbox messages of other instances are not included.
+ */
+export class DeviceDataExport {
+  private readonly store: TKeyValue;
+  private readonly inboxMessages: InboxMessagesModel;
+
+  constructor(
+    store: TKeyValue = keyValue,
+    inboxMessages: InboxMessagesModel = new InboxMessagesModel()
+  ) {
+    this.store = store;
+    this.inboxMessages = inboxMessages;
+  }
+
+  /**
+   * @param getTags - receives tags of the device from Pushwoosh
+   * @returns {Promise<IDeviceDataExport>} JSON serializable document
+   */
+  public async collect(getTags: () => Promise<{[key: string]: any} | null>): Promise<IDeviceDataExport> {
+    const [keyValues, inboxMessages, messages, log, tags] = await Promise.all([
+      this.store.getAll(),  // namespaced keys of named instances are skipped for default instance
+      this.inboxMessages.getMessages(),
+      messageStorage.getAll(),
+      logStorage.getAll(),
+      getTags().catch((error) => {
+        Logger.write('error', error, 'Can\'t get tags for device data export');
+        return null;
+      })
+    ]);
+
+    return {
+      exportDate: new Date().toISOString(),
+      sdkVersion: getVersion(),
+      keyValue: this.redact(keyValues),
+      inboxMessages,
+      messages: this.redact(messages),
+      log: this.redact(log),
+      tags
+    };
+  }
+
+  /**
+   * Replace values of secret keys at any depth
+   * @param value
+   */
+  private redact(value: any): any {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+
+    if (!value || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+
+    return Object.keys(value).reduce((result: {[key: string]: any}, key) => {
+      result[key] = DEVICE_DATA_EXPORT_SECRET_KEYS.indexOf(key) > -1 && value[key]
+        ? DEVICE_DATA_EXPORT_REDACTED
+        : this.redact(value[key]);
+
+      return result;
+    }, {});
+  }
+
+  /**
+   * Replace secret params of api requests in log messages
+   * @param value
+   */
+  private redactString(value: string): string {
+    return DEVICE_DATA_EXPORT_SECRET_REQUEST_PARAMS.reduce(
+      (result, param) => result.replace(
+        new RegExp(`"${param}":"[^"]*"`, 'g'),
+        `"${param}":"${DEVICE_DATA_EXPORT_REDACTED}"`
+      ),
+      value
+    );
+  }
+}
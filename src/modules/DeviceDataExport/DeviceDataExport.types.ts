@@ -0,0 +1,9 @@
+export interface IDeviceDataExport {
+  exportDate: string;
+  sdkVersion: string;
+  keyValue: {[key: string]: any};
+  inboxMessages: Array<IInboxMessage>;
+  messages: Array<any>;
+  log: Array<any>;
+  tags: {[key: string]: any} | null;  // null if tags can't be received from Pushwoosh
+}
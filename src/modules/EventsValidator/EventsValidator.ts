@@ -0,0 +1,78 @@
+import {isValueOfType} from '../../functions';
+import {GOAL_ATTRIBUTION_ATTRIBUTE} from '../GoalAttribution/GoalAttribution.constants';
+
+import {PushwooshEventError} from './PushwooshEventError';
+
+
+/**
+ * Checks postEvent calls by the events schema passed at init.
+ * Invalid events are rejected in "reject" mode, in "warn" mode they are sent with console warning.
+ */
+export class EventsValidator {
+  private readonly schema: IEventsSchema;
+  private readonly mode: TEventsValidationMode;
+
+  constructor(schema: IEventsSchema, mode: TEventsValidationMode = 'warn') {
+    this.schema = schema;
+    this.mode = mode;
+  }
+
+  /**
+   * @param event
+   * @param attributes
+   * @throws {PushwooshEventError} in "reject" mode
+   */
+  public check(event: string, attributes: {[name: string]: any} = {}): void {
+    const problems = this.validate(event, attributes);
+    if (!problems.length) {
+      return;
+    }
+
+    const error = new PushwooshEventError(event, problems);
+    if (this.mode === 'reject') {
+      throw error;
+    }
+
+    console.warn(error.message);
+  }
+
+  private validate(event: string, attributes: {[name: string]: any}): Array<string> {
+    const eventSchema = this.schema[event];
+    if (!eventSchema) {
+      return ['event is not found in schema'];
+    }
+
+    const attributesSchema = eventSchema.attributes || {};
+    const problems: Array<string> = [];
+
+    Object.keys(attributesSchema).forEach((name) => {
+      const {type, required = false} = attributesSchema[name];
+      const value = attributes[name];
+
+      if (value === undefined || value === null) {
+        if (required) {
+          problems.push(`attribute "${name}" is required`);
+        }
+        return;
+      }
+
+      if (!isValueOfType(value, type)) {
+        problems.push(`attribute "${name}" is not ${type}`);
+      }
+    });
+
+    Object.keys(attributes)
+      .filter((name) => !attributesSchema[name] && name !== GOAL_ATTRIBUTION_ATTRIBUTE)
+      .forEach((name) => problems.push(`attribute "${name}" is not found in schema`));
+
+    return problems;
+  }
+}
+
+/**
+ * Identity function keeping literal types of the schema, so postEvent calls can be typed by it
+ * @param schema
+ */
+export function defineEventsSchema<S extends IEventsSchema>(schema: S): S {
+  return schema;
+}
@@ -0,0 +1,18 @@
+/**
+ * Event or its attributes don't match the events schema passed at init
+ */
+export class PushwooshEventError extends Error {
+  public readonly event: string;
+  public readonly problems: Array<string>;
+
+  constructor(event: string, problems: Array<string>) {
+    super(`Event "${event}" doesn't match events schema: ${problems.join('; ')}`);
+
+    // restore prototype chain, it is broken for Error subclasses compiled to es5
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = 'PushwooshEventError';
+    this.event = event;
+    this.problems = problems;
+  }
+}
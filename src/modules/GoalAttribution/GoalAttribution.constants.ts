@@ -0,0 +1,10 @@
+import {PERIOD_GOAL_EVENT} from '../../constants';
+
+
+export const KEY_OPENED_MESSAGES = 'OPENED_MESSAGES';  // history of opened messages for goal attribution
+export const KEY_LAST_OPEN_MESSAGE = 'LAST_OPEN_MESSAGE';  // the only open stored by previous SDK versions
+
+export const GOAL_ATTRIBUTION_ATTRIBUTE = 'msgHash';  // postEvent attribute linking event to the message
+export const GOAL_ATTRIBUTION_DEFAULT_MODEL: TGoalAttributionModel = 'last_touch';
+export const GOAL_ATTRIBUTION_DEFAULT_WINDOW = PERIOD_GOAL_EVENT;
+export const GOAL_ATTRIBUTION_HISTORY_SIZE = 20;
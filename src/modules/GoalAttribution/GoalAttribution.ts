@@ -0,0 +1,93 @@
+import {keyValue, TKeyValue} from '../../storage';
+
+import {PERIOD_GOAL_EVENT} from '../../constants';
+
+import {
+  KEY_OPENED_MESSAGES,
+  KEY_LAST_OPEN_MESSAGE,
+  GOAL_ATTRIBUTION_DEFAULT_MODEL,
+  GOAL_ATTRIBUTION_DEFAULT_WINDOW,
+  GOAL_ATTRIBUTION_HISTORY_SIZE
+} from './GoalAttribution.constants';
+import {IOpenedMessage, ILastOpenMessage} from './GoalAttribution.types';
+
+
+/**
+ * Links postEvent calls to the messages opened before.
+ * Opens are recorded by service worker, inbox and in-apps,
+ * the message is chosen within the attribution window by last-touch or first-touch model.
+ */
+export class GoalAttribution {
+  private readonly store: TKeyValue;
+  private readonly model: TGoalAttributionModel;
+  private readonly window: number;
+  private readonly sources?: Array<TGoalAttributionSource>;
+
+  constructor(store: TKeyValue = keyValue, params: IGoalAttributionParams = {}) {
+    this.store = store;
+    this.model = params.model || GOAL_ATTRIBUTION_DEFAULT_MODEL;
+    this.window = params.window !== undefined ? params.window : GOAL_ATTRIBUTION_DEFAULT_WINDOW;
+    this.sources = params.sources;
+  }
+
+  /**
+   * Record message open
+   * @param messageHash
+   * @param source
+   */
+  public async addOpen(messageHash: string, source: TGoalAttributionSource): Promise<void> {
+    const history = await this.getHistory();
+    history.push({messageHash, source, openedAt: Date.now()});
+
+    await this.store.set(KEY_OPENED_MESSAGES, history.slice(-GOAL_ATTRIBUTION_HISTORY_SIZE));
+  }
+
+  /**
+   * Hash of the message goal event is attributed to
+   * @returns {Promise<string | undefined>} undefined if no message is opened within the window
+   */
+  public async getMessageHash(): Promise<string | undefined> {
+    const windowStart = Date.now() - this.window;
+    const opens = (await this.getHistory())
+      .filter(({openedAt, source}) => openedAt > windowStart
+        && (!this.sources || this.sources.indexOf(source) !== -1));
+
+    if (!opens.length) {
+      return;
+    }
+
+    // history is ordered by open time
+    const open = this.model === 'first_touch'
+      ? opens[0]
+      : opens[opens.length - 1];
+
+    return open.messageHash;
+  }
+
+  private async getHistory(): Promise<Array<IOpenedMessage>> {
+    const history: Array<IOpenedMessage> | undefined = await this.store.get(KEY_OPENED_MESSAGES);
+
+    return history || this.migrateLastOpenMessage();
+  }
+
+  /**
+   * Open recorded by service worker of previous SDK version is the first one of the history
+   */
+  private async migrateLastOpenMessage(): Promise<Array<IOpenedMessage>> {
+    const lastOpenMessage: ILastOpenMessage | undefined = await this.store.get(KEY_LAST_OPEN_MESSAGE);
+    if (!lastOpenMessage || !lastOpenMessage.messageHash) {
+      return [];
+    }
+
+    const history: Array<IOpenedMessage> = [{
+      messageHash: lastOpenMessage.messageHash,
+      source: 'push',
+      openedAt: lastOpenMessage.expiry - PERIOD_GOAL_EVENT
+    }];
+
+    await this.store.set(KEY_OPENED_MESSAGES, history);
+    await this.store.set(KEY_LAST_OPEN_MESSAGE, undefined);
+
+    return history;
+  }
+}
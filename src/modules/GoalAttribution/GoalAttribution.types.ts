@@ -0,0 +1,12 @@
+export interface IOpenedMessage {
+  messageHash: string;  // push or inbox message hash, in-app code
+  source: TGoalAttributionSource;
+  openedAt: number;  // ms
+}
+
+// open stored by previous SDK versions
+export interface ILastOpenMessage {
+  url: string;
+  messageHash: string;
+  expiry: number;  // ms, open time plus 24 hours
+}
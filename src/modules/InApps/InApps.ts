@@ -5,6 +5,7 @@ import { keyValue } from '../../storage';
 import { EventBus } from '../EventBus/EventBus';
 import { Modal } from '../Modal/Modal';
 import { RichMedia } from '../RichMedia/RichMedia';
+import { GoalAttribution } from '../GoalAttribution/GoalAttribution';
 import { ExpanderPushManager, ExpanderPushwoosh } from './expanders/expanders';
 
 import { IInAppsOptions } from './InApps.types';
@@ -16,17 +17,26 @@ export class InApps {
   private readonly api: ApiClient;
   private readonly store: typeof keyValue;
   private readonly PW: API;
+  private readonly goalAttribution: GoalAttribution;
   private delayInApps: string[] = [];
+  private shownInAppCode?: string;
   public isLoadedInAppsList: boolean = false;
   public inApps: IInApp[];
   public modal: Modal;
 
-  constructor(options: IInAppsOptions, PW: API, api = new ApiClient(), store = keyValue) {
+  constructor(
+    options: IInAppsOptions,
+    PW: API,
+    api = new ApiClient(),
+    store = keyValue,
+    goalAttribution = new GoalAttribution(store)
+  ) {
     this.options = options;
     this.eventBus = EventBus.getInstance();
     this.api = api;
     this.store = store;
     this.PW = PW;
+    this.goalAttribution = goalAttribution;
     this.modal = new Modal(this.options && this.options.modal ? this.options.modal : {});
 
     this.init()
@@ -55,17 +65,32 @@ export class InApps {
       this.showInApp(options.code);
     });
 
+    await this.loadList();
+  }
+
+  private async loadList(): Promise<void> {
     const { inApps } = await this.getList();
 
+    this.inApps = inApps;
+    this.isLoadedInAppsList = true;
+
     if(this.delayInApps.length) {
       this.delayInApps.forEach((code: string) => {
         this.showInApp(code);
-      })
+      });
+      this.delayInApps = [];
     }
+  }
 
-    this.isLoadedInAppsList = true;
+  /**
+   * Close shown in-app and load list of the current user, e.g. after login
+   */
+  public async reload(): Promise<void> {
+    this.isLoadedInAppsList = false;
+    this.delayInApps = [];
+    this.eventBus.emit('needCloseInApp', null);
 
-    this.inApps = inApps;
+    await this.loadList();
   }
 
   private subscribeToReceiveMessageFromIFrame() {
@@ -87,12 +112,25 @@ export class InApps {
           break;
         case 'openNewLink':
           this.eventBus.emit('openNewLink', message.options);
+          this.addInAppClick();
           window.open(message.options.href, '_blank');
           break;
       }
     }
   }
 
+  /**
+   * Link click in the shown in-app is its open for goal attribution
+   */
+  private addInAppClick() {
+    if (!this.shownInAppCode) {
+      return;
+    }
+
+    this.goalAttribution.addOpen(this.shownInAppCode, 'inapp')
+      .catch((error) => Logger.write('error', error, 'InApp click recording fail'));
+  }
+
   public async showInApp(code: string) {
     const filteredRichMedia = this.inApps.filter((inApp) => inApp.code === code);
 
@@ -104,6 +142,8 @@ export class InApps {
       .setLoading()
       .show();
 
+    this.shownInAppCode = code;
+
     const currentRichMedia = filteredRichMedia[0];
     const inAppContent = await new RichMedia(
       currentRichMedia.url,
@@ -130,7 +170,7 @@ export class InApps {
       'params.applicationCode': applicationCode,
       'params.hwid': hwid,
       'params.userId': userId,
-    } = await keyValue.getAll();
+    } = await this.store.getAll();
 
     return this.api.getInApps({
       application: applicationCode,
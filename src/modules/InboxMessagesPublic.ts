@@ -3,6 +3,8 @@ import DateModule from './DateModule';
 import ApiClient from './api/ApiClient';
 import PayloadBuilder from './api/PayloadBuilder';
 import Params from './data/Params';
+import {GoalAttribution} from './GoalAttribution/GoalAttribution';
+import {LOCAL_NOTIFICATION_INBOX_PREFIX} from './LocalNotifications/LocalNotifications.constants';
 
 
 export default class InboxMessages implements IInboxMessages {
@@ -11,6 +13,8 @@ export default class InboxMessages implements IInboxMessages {
   private apiClient: ApiClient;
   private payloadBuilder: PayloadBuilder;
   private params: Params;
+  private goalAttribution: GoalAttribution;
+  private changeHandlers: Array<() => void> = [];
 
   constructor(
     inboxModel: InboxMessagesModel = new InboxMessagesModel(),
@@ -18,16 +22,30 @@ export default class InboxMessages implements IInboxMessages {
     apiClient: ApiClient = new ApiClient(),
     payloadBuilder: PayloadBuilder = new PayloadBuilder(),
     params: Params = new Params(),
+    goalAttribution: GoalAttribution = new GoalAttribution(params.store)
   ) {
     this.inboxModel = inboxModel;
     this.dateModule = dateModule;
     this.apiClient = apiClient;
     this.payloadBuilder = payloadBuilder;
     this.params = params;
+    this.goalAttribution = goalAttribution;
 
     this.publicMessageBuilder = this.publicMessageBuilder.bind(this);
   }
 
+  /**
+   * Subscribe to status changes of messages made by this instance
+   * @param handler
+   */
+  onChange(handler: () => void): void {
+    this.changeHandlers.push(handler);
+  }
+
+  private emitChange(): void {
+    this.changeHandlers.forEach((handler) => handler());
+  }
+
   /**
    * Get message type by IInboxMessageActionParams
    * @param actionParams
@@ -54,6 +72,14 @@ export default class InboxMessages implements IInboxMessages {
     return messageType;
   }
 
+  /**
+   * Message of local notification is not known by Pushwoosh, its status is stored locally only
+   * @param message
+   */
+  private isLocalMessage(message: IInboxMessage): boolean {
+    return message.inbox_id.indexOf(LOCAL_NOTIFICATION_INBOX_PREFIX) === 0;
+  }
+
   /**
    * Update messages status using codes from arguments
    * @param codes
@@ -76,6 +102,10 @@ export default class InboxMessages implements IInboxMessages {
       msg.status = status;
       updatedMessages.push(msg);
 
+      if (this.isLocalMessage(msg)) {
+        return;
+      }
+
       // Set inbox status to server
       const inboxStatusPayload = await this.payloadBuilder.inboxStatus(msg.order, msg.status);
       inboxStatusQueries.push(this.apiClient.inboxStatus(inboxStatusPayload));
@@ -158,6 +188,7 @@ export default class InboxMessages implements IInboxMessages {
       unreadMessages,
       statusRead
     );
+    this.emitChange();
   }
 
   /**
@@ -166,9 +197,18 @@ export default class InboxMessages implements IInboxMessages {
    */
   async performActionForMessageWithCode(code: string): Promise<void> {
     const message = await this.inboxModel.getMessage(code);
+    if (!message) {
+      return;
+    }
+
     const actionParams = JSON.parse(message.action_params);
     const messageType = this.messageTypeFactory(actionParams);
 
+    // record before leaving the page by the action url
+    if (message.hash) {
+      await this.goalAttribution.addOpen(message.hash, 'inbox');
+    }
+
     if (<TInboxMessageTypeURL>messageType === 2 && actionParams.l !== undefined) {
       document.location.href = actionParams.l;
     }
@@ -178,6 +218,11 @@ export default class InboxMessages implements IInboxMessages {
 
     (<TInboxMessageStatusOpen>message.status) = 3;
     await this.inboxModel.putMessage(message);
+    this.emitChange();
+
+    if (this.isLocalMessage(message)) {
+      return;
+    }
 
     // Set inbox status to server
     const inboxStatusPayload = await this.payloadBuilder.inboxStatus(message.order, message.status);
@@ -198,6 +243,7 @@ export default class InboxMessages implements IInboxMessages {
       [...readMessages, ...unreadMessages],
       statusDeleted
     );
+    this.emitChange();
   }
 
   /**
@@ -0,0 +1,5 @@
+export const KEY_LOCAL_NOTIFICATIONS = 'LOCAL_NOTIFICATIONS';
+export const LOCAL_NOTIFICATIONS_MESSAGE_TYPE = 'pushwoosh-local-notifications';  // page asks worker to show due notifications
+export const LOCAL_NOTIFICATIONS_MAX_WAIT = 4 * 60 * 1000;  // ms, browsers terminate worker handling event for 5 minutes
+export const LOCAL_NOTIFICATIONS_DEFAULT_TTL = 24 * 60 * 60 * 1000;  // ms, overdue notification is dropped after it
+export const LOCAL_NOTIFICATION_INBOX_PREFIX = 'local-';  // inbox code prefix of local notification
@@ -0,0 +1,112 @@
+import {keyValue, TKeyValue} from '../../storage';
+
+import {
+  KEY_LOCAL_NOTIFICATIONS,
+  LOCAL_NOTIFICATIONS_DEFAULT_TTL,
+  LOCAL_NOTIFICATION_INBOX_PREFIX
+} from './LocalNotifications.constants';
+import {ILocalNotification} from './LocalNotifications.types';
+
+
+/**
+ * Notifications scheduled by page without server push.
+ * Page stores them, service worker takes due ones and shows them as push payloads.
+ */
+export class LocalNotifications {
+  private readonly store: TKeyValue;
+
+  constructor(store: TKeyValue = keyValue) {
+    this.store = store;
+  }
+
+  /**
+   * @param params
+   * @param applicationCode - routes notification to Pushwoosh instance of the application in service worker
+   * @returns {Promise<string>} id of the scheduled notification
+   */
+  public async schedule(params: ILocalNotificationParams, applicationCode: string): Promise<string> {
+    const id = this.createId();
+    const {title, body, url, at, ttl = LOCAL_NOTIFICATIONS_DEFAULT_TTL, icon, image, customData, inbox} = params;
+    const time = at instanceof Date ? at.getTime() : at;
+
+    await this.add({
+      id,
+      at: time,
+      expiresAt: time + ttl,
+      payload: {
+        header: title,
+        body,
+        l: url,
+        i: icon,
+        image,
+        u: customData && JSON.stringify(customData),
+        pw_inbox: inbox ? `${LOCAL_NOTIFICATION_INBOX_PREFIX}${id}` : undefined,
+        application: applicationCode
+      }
+    });
+
+    return id;
+  }
+
+  /**
+   * Schedule push payload, e.g. of snoozed notification
+   * @param payload
+   * @param at - ms timestamp of showing
+   * @returns {Promise<string>} id of the scheduled notification
+   */
+  public async schedulePayload(payload: INotificationPayload, at: number): Promise<string> {
+    const id = this.createId();
+    await this.add({id, at, expiresAt: at + LOCAL_NOTIFICATIONS_DEFAULT_TTL, payload});
+
+    return id;
+  }
+
+  /**
+   * Remove notification which is not shown yet
+   * @param id
+   */
+  public async cancel(id: string): Promise<void> {
+    await this.store.update<Array<ILocalNotification>>(
+      KEY_LOCAL_NOTIFICATIONS,
+      (notifications = []) => notifications.filter((notification) => notification.id !== id)
+    );
+  }
+
+  /**
+   * Remove due notifications from store in one transaction, so every notification is taken once.
+   * Expired notifications are removed without showing.
+   * @param now
+   */
+  public async takeDue(now: number = Date.now()): Promise<Array<ILocalNotification>> {
+    let dueNotifications: Array<ILocalNotification> = [];
+
+    await this.store.update<Array<ILocalNotification>>(KEY_LOCAL_NOTIFICATIONS, (notifications = []) => {
+      dueNotifications = notifications.filter((notification) => notification.at <= now && notification.expiresAt > now);
+      return notifications.filter((notification) => notification.at > now);
+    });
+
+    return dueNotifications;
+  }
+
+  /**
+   * Time of the nearest scheduled notification
+   */
+  public async getNextTime(): Promise<number | undefined> {
+    const notifications: Array<ILocalNotification> = await this.store.get(KEY_LOCAL_NOTIFICATIONS, []);
+
+    return notifications.length
+      ? Math.min(...notifications.map((notification) => notification.at))
+      : undefined;
+  }
+
+  private async add(notification: ILocalNotification): Promise<void> {
+    await this.store.update<Array<ILocalNotification>>(
+      KEY_LOCAL_NOTIFICATIONS,
+      (notifications = []) => [...notifications, notification]
+    );
+  }
+
+  private createId(): string {
+    return `${Date.now()}-${Math.random().toString(16).slice(2, 10)}`;
+  }
+}
@@ -0,0 +1,11 @@
+export interface ILocalNotification {
+  id: string;
+  at: number;  // ms timestamp of showing
+  expiresAt: number;  // ms timestamp, notification is not shown later, e.g. when site is not visited for a long time
+  payload: INotificationPayload;  // shown by service worker as push payload
+}
+
+export interface ILocalNotificationsMessage {
+  type: string;
+  namespace: string;  // namespace of Pushwoosh instance the notifications are stored in
+}
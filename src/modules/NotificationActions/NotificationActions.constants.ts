@@ -0,0 +1,8 @@
+export const NOTIFICATION_ACTION_URL = 'url';  // open button url, default
+export const NOTIFICATION_ACTION_POST_EVENT = 'postEvent';
+export const NOTIFICATION_ACTION_SET_TAGS = 'setTags';
+export const NOTIFICATION_ACTION_DISMISS = 'dismiss';
+export const NOTIFICATION_ACTION_SNOOZE = 'snooze';
+export const NOTIFICATION_ACTION_MARK_INBOX_READ = 'markInboxRead';
+
+export const DEFAULT_SNOOZE_DELAY = 60 * 1000;  // ms, less than LOCAL_NOTIFICATIONS_MAX_WAIT to be shown by the same worker
@@ -0,0 +1,98 @@
+import API from '../../API';
+import Params from '../data/Params';
+import InboxMessagesPublic from '../InboxMessagesPublic';
+import {LocalNotifications} from '../LocalNotifications/LocalNotifications';
+
+import {
+  NOTIFICATION_ACTION_URL,
+  NOTIFICATION_ACTION_POST_EVENT,
+  NOTIFICATION_ACTION_SET_TAGS,
+  NOTIFICATION_ACTION_SNOOZE,
+  NOTIFICATION_ACTION_MARK_INBOX_READ,
+  DEFAULT_SNOOZE_DELAY
+} from './NotificationActions.constants';
+
+
+/**
+ * Typed actions of notification buttons run by service worker without opening window
+ */
+export class NotificationActions {
+  private readonly api: API;
+  private readonly localNotifications: LocalNotifications;
+  private readonly params: Params;
+  private readonly inboxMessages: InboxMessagesPublic;
+
+  constructor(
+    api: API,
+    localNotifications: LocalNotifications = new LocalNotifications(),
+    params: Params = new Params(),
+    inboxMessages: InboxMessagesPublic = new InboxMessagesPublic()
+  ) {
+    this.api = api;
+    this.localNotifications = localNotifications;
+    this.params = params;
+    this.inboxMessages = inboxMessages;
+  }
+
+  /**
+   * Button runs action instead of opening its url
+   * @param button
+   */
+  static isAction(button?: INotificationButton): button is INotificationButton {
+    return Boolean(button && button.type && button.type !== NOTIFICATION_ACTION_URL);
+  }
+
+  /**
+   * Run action of clicked button, dismiss needs nothing as notification is closed by click
+   * @param button
+   * @param notificationOptions - options of the clicked notification
+   * @throws {PushwooshApiError}
+   */
+  public async run(button: INotificationButton, notificationOptions: INotificationOptions): Promise<void> {
+    const {messageHash, inboxId} = notificationOptions;
+
+    switch (button.type) {
+      case NOTIFICATION_ACTION_POST_EVENT:
+        // event is attributed to the clicked message
+        await this.api.postEvent(button.event || '', messageHash
+          ? {msgHash: messageHash, ...button.attributes}
+          : button.attributes);
+        break;
+      case NOTIFICATION_ACTION_SET_TAGS:
+        await this.api.setTags(button.tags || {});
+        break;
+      case NOTIFICATION_ACTION_SNOOZE:
+        await this.snooze(notificationOptions, button.delay);
+        break;
+      case NOTIFICATION_ACTION_MARK_INBOX_READ:
+        if (inboxId) {
+          await this.inboxMessages.readMessagesWithCodes([inboxId]);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Show the notification again after delay as local notification,
+   * its delivery and click statistics are not sent again
+   * @param notificationOptions
+   * @param delay - ms
+   */
+  private async snooze(notificationOptions: INotificationOptions, delay: number = DEFAULT_SNOOZE_DELAY): Promise<void> {
+    const applicationCode = await this.params.appCode;
+
+    await this.localNotifications.schedulePayload({
+      header: notificationOptions.title,
+      body: notificationOptions.body || '',
+      i: notificationOptions.icon,
+      image: notificationOptions.image,
+      l: notificationOptions.openUrl,
+      u: JSON.stringify(notificationOptions.customData || {}),
+      p: notificationOptions.messageHash,
+      pwcid: notificationOptions.campaignCode,
+      buttons: JSON.stringify(notificationOptions.buttons || []),
+      application: applicationCode,
+      pw_snoozed: '1'
+    }, Date.now() + delay);
+  }
+}
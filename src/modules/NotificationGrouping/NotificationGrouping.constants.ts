@@ -0,0 +1,6 @@
+export const NOTIFICATION_GROUPING_MODE_NONE = 'none';  // every push is shown separately, default
+export const NOTIFICATION_GROUPING_MODE_REPLACE = 'replace';  // push replaces earlier one of the same thread
+export const NOTIFICATION_GROUPING_MODE_SUMMARY = 'summary';  // push replaces earlier ones of the same thread by summary
+
+export const NOTIFICATION_GROUP_TAG_PREFIX = 'pw-group-';
+export const DEFAULT_NOTIFICATION_GROUP_SUMMARY = '{count} new messages from {title}';
@@ -0,0 +1,65 @@
+import NotificationPayload from '../../models/NotificationPayload';
+
+import {
+  NOTIFICATION_GROUPING_MODE_NONE,
+  NOTIFICATION_GROUPING_MODE_REPLACE,
+  NOTIFICATION_GROUP_TAG_PREFIX,
+  DEFAULT_NOTIFICATION_GROUP_SUMMARY
+} from './NotificationGrouping.constants';
+
+
+/**
+ * Collapse notifications of the same thread or campaign into one by tag
+ */
+export class NotificationGrouping {
+  private readonly mode: TNotificationGroupingMode;
+  private readonly summary: string;
+
+  constructor({
+    mode = NOTIFICATION_GROUPING_MODE_NONE,
+    summary = DEFAULT_NOTIFICATION_GROUP_SUMMARY
+  }: INotificationGroupingParams = {}) {
+    this.mode = mode;
+    this.summary = summary;
+  }
+
+  /**
+   * Set tag of the thread and summary of shown notifications of the thread
+   * @param notificationPayload
+   * @param showOptions
+   * @param title
+   */
+  public async apply(
+    notificationPayload: NotificationPayload,
+    showOptions: IShowNotificationOptions,
+    title: string
+  ): Promise<IShowNotificationOptions> {
+    const mode = notificationPayload.groupMode || this.mode;
+    const {threadId} = notificationPayload;
+
+    if (mode === NOTIFICATION_GROUPING_MODE_NONE || !threadId) {
+      return showOptions;
+    }
+
+    // notification replacing the shown one of the thread must alert user too
+    const tag = `${NOTIFICATION_GROUP_TAG_PREFIX}${threadId}`;
+    if (mode === NOTIFICATION_GROUPING_MODE_REPLACE) {
+      return {...showOptions, tag, renotify: true};
+    }
+
+    const notifications = await self.registration.getNotifications({tag});
+    const groupCount = notifications.reduce((count: number, notification: Notification) => (
+      count + (notification.data && notification.data.groupCount || 1)
+    ), 1);
+
+    return {
+      ...showOptions,
+      tag,
+      renotify: true,
+      body: groupCount > 1
+        ? this.summary.replace('{count}', `${groupCount}`).replace('{title}', title)
+        : showOptions.body,
+      data: {...showOptions.data, groupCount}
+    };
+  }
+}
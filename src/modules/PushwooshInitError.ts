@@ -0,0 +1,26 @@
+export type TPushwooshInitErrorReason = 'unsupported_browser'
+  | 'missing_application_code'
+  | 'missing_safari_website_push_id'
+  | 'service_worker_registration_failed'
+  | 'missing_sender_id'
+  | 'initialization_failed';
+
+
+/**
+ * Reason of failed Pushwoosh initialization, Pushwoosh.init() and Pushwoosh.whenReady() are rejected with it
+ */
+export class PushwooshInitError extends Error {
+  public readonly reason: TPushwooshInitErrorReason;
+  public readonly cause: any;
+
+  constructor(reason: TPushwooshInitErrorReason, message: string, cause?: any) {
+    super(message);
+
+    // restore prototype chain, it is broken for Error subclasses compiled to es5
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = 'PushwooshInitError';
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,13 @@
+// localStorage key, session is shared by all tabs of the site
+export const KEY_SESSION = 'pushwoosh-session';
+export const KEY_SESSION_LAST_ENDED = 'SESSION_LAST_ENDED';  // IndexedDB, id of the last ended session
+
+export const SESSION_CHANNEL_NAME = 'pushwoosh-session';  // BroadcastChannel of the tabs
+
+export const SESSION_DEFAULT_IDLE_TIMEOUT = 1800000;  // 30 minutes
+export const SESSION_ACTIVITY_THROTTLE = 10000;  // min period of activity time updates, ms
+export const SESSION_ACTIVITY_EVENTS = ['click', 'keydown', 'scroll', 'touchstart'];
+
+export const SESSION_MESSAGE_START = 'start';
+export const SESSION_MESSAGE_END = 'end';
+export const SESSION_MESSAGE_ACTIVITY = 'activity';
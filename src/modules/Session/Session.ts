@@ -0,0 +1,257 @@
+import {getKeyValue, TKeyValue} from '../../storage';
+import {generateUUID, getNamespacedKey} from '../../functions';
+import Logger from '../../logger';
+
+import {
+  KEY_SESSION,
+  KEY_SESSION_LAST_ENDED,
+  SESSION_CHANNEL_NAME,
+  SESSION_DEFAULT_IDLE_TIMEOUT,
+  SESSION_ACTIVITY_THROTTLE,
+  SESSION_ACTIVITY_EVENTS,
+  SESSION_MESSAGE_START,
+  SESSION_MESSAGE_END,
+  SESSION_MESSAGE_ACTIVITY
+} from './Session.constants';
+import {
+  ISessionState,
+  ISessionHandlers,
+  ISessionMessage
+} from './Session.types';
+
+
+/**
+ * Session of the user shared by all tabs of the site.
+ * Session starts on page load or user activity after idle timeout
+ * and ends when there is no activity in any tab during idle timeout.
+ * Tabs are notified about session start and end by BroadcastChannel.
+ * Session is ended by one tab only, it is marked as ended in one IndexedDB transaction.
+ */
+export class Session {
+  private readonly key: string;
+  private readonly channelName: string;
+  private readonly handlers: ISessionHandlers;
+  private readonly store: TKeyValue;
+  private idleTimeout: number = SESSION_DEFAULT_IDLE_TIMEOUT;
+  private isTracked: boolean = false;
+  private channel?: BroadcastChannel;
+  private idleTimer: any;
+
+  constructor(handlers: ISessionHandlers, namespace: string = '', store: TKeyValue = getKeyValue(namespace)) {
+    this.key = getNamespacedKey(KEY_SESSION, namespace);
+    this.channelName = getNamespacedKey(SESSION_CHANNEL_NAME, namespace);
+    this.handlers = handlers;
+    this.store = store;
+
+    this.onActivity = this.onActivity.bind(this);
+    this.onVisibilityChange = this.onVisibilityChange.bind(this);
+    this.onMessage = this.onMessage.bind(this);
+  }
+
+  /**
+   * Start tracking in this tab, page load is user activity
+   * @param params
+   */
+  public start(params: ISessionParams = {}): void {
+    this.idleTimeout = params.idleTimeout || SESSION_DEFAULT_IDLE_TIMEOUT;
+
+    if (!this.isTracked) {
+      this.isTracked = true;
+
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+      SESSION_ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, this.onActivity, true));
+
+      if (typeof BroadcastChannel === 'function') {
+        this.channel = new BroadcastChannel(this.channelName);
+        this.channel.onmessage = this.onMessage;
+      }
+    }
+
+    this.onActivity();
+  }
+
+  /**
+   * Stop tracking in this tab
+   */
+  public stop(): void {
+    if (!this.isTracked) {
+      return;
+    }
+
+    this.isTracked = false;
+    clearTimeout(this.idleTimer);
+
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    SESSION_ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, this.onActivity, true));
+
+    if (this.channel) {
+      this.channel.close();
+      this.channel = undefined;
+    }
+  }
+
+  /**
+   * Stop tracking and forget the session
+   */
+  public clear(): void {
+    this.stop();
+    localStorage.removeItem(this.key);
+  }
+
+  /**
+   * @returns {ISessionState | null} not ended session
+   */
+  public getCurrent(): ISessionState | null {
+    const state = this.getState();
+
+    return state && !this.isEnded(state) ? state : null;
+  }
+
+  private getState(): ISessionState | null {
+    try {
+      return JSON.parse(localStorage.getItem(this.key) || 'null');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private setState(state: ISessionState): void {
+    localStorage.setItem(this.key, JSON.stringify(state));
+  }
+
+  private isEnded(state: ISessionState, now: number = Date.now()): boolean {
+    return !!state.endedAt || now - state.lastActivityAt >= this.idleTimeout;
+  }
+
+  private onActivity(): void {
+    const now = Date.now();
+    const state = this.getState();
+
+    if (!state || this.isEnded(state, now)) {
+      // session of the tabs closed before idle timeout is ended on the next visit
+      if (state && !state.endedAt) {
+        this.end(state)
+          .catch((error) => Logger.write('error', error, 'Session end fail'));
+      }
+
+      this.begin(now);
+    } else if (now - state.lastActivityAt >= SESSION_ACTIVITY_THROTTLE) {
+      this.setState({...state, lastActivityAt: now});
+      this.postMessage({type: SESSION_MESSAGE_ACTIVITY});
+    }
+
+    this.scheduleIdleCheck();
+  }
+
+  private onVisibilityChange(): void {
+    if (document.visibilityState === 'visible') {
+      this.onActivity();
+    }
+  }
+
+  private onMessage(event: MessageEvent): void {
+    const {type, payload}: ISessionMessage = event.data || {};
+
+    switch (type) {
+      case SESSION_MESSAGE_START:
+        this.handlers.onStart(<ISessionStartPayload>payload);
+        break;
+      case SESSION_MESSAGE_END:
+        this.handlers.onEnd(<ISessionEndPayload>payload);
+        return;
+    }
+
+    this.scheduleIdleCheck();
+  }
+
+  private begin(now: number): void {
+    const state: ISessionState = {
+      id: generateUUID(),
+      startedAt: now,
+      lastActivityAt: now
+    };
+    this.setState(state);
+
+    const payload: ISessionStartPayload = {
+      sessionId: state.id,
+      startedAt: state.startedAt
+    };
+    this.handlers.onStart(payload);
+    this.postMessage({type: SESSION_MESSAGE_START, payload});
+  }
+
+  private async end(state: ISessionState): Promise<void> {
+    const isEndedByThisTab = await this.markEnded(state.id);
+    if (!isEndedByThisTab) {
+      return;
+    }
+
+    // session has lasted until the last activity
+    const endedAt = state.lastActivityAt;
+
+    // new session can be started by this tab while marking
+    const current = this.getState();
+    if (current && current.id === state.id) {
+      this.setState({...current, endedAt});
+    }
+
+    const payload: ISessionEndPayload = {
+      sessionId: state.id,
+      startedAt: state.startedAt,
+      endedAt,
+      duration: endedAt - state.startedAt
+    };
+    this.handlers.onEnd(payload);
+    this.postMessage({type: SESSION_MESSAGE_END, payload});
+  }
+
+  /**
+   * @param sessionId
+   * @returns {Promise<boolean>} false if session has been ended by other tab
+   */
+  private async markEnded(sessionId: string): Promise<boolean> {
+    let isMarked = false;
+
+    await this.store.update<string>(KEY_SESSION_LAST_ENDED, (lastEndedId) => {
+      isMarked = lastEndedId !== sessionId;
+      return sessionId;
+    });
+
+    return isMarked;
+  }
+
+  /**
+   * Check idle timeout at the time of the last activity in any tab plus timeout
+   */
+  private scheduleIdleCheck(): void {
+    clearTimeout(this.idleTimer);
+
+    const state = this.getState();
+    if (!state || state.endedAt) {
+      return;
+    }
+
+    const delay = Math.max(state.lastActivityAt + this.idleTimeout - Date.now(), 0);
+    this.idleTimer = setTimeout(() => this.checkIdle(), delay);
+  }
+
+  private checkIdle(): void {
+    const state = this.getState();
+    if (!state || state.endedAt) {
+      return;
+    }
+
+    if (this.isEnded(state)) {
+      this.end(state)
+        .catch((error) => Logger.write('error', error, 'Session end fail'));
+    } else {
+      this.scheduleIdleCheck();
+    }
+  }
+
+  private postMessage(message: ISessionMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+    }
+  }
+}
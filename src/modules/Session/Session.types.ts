@@ -0,0 +1,17 @@
+export interface ISessionState {
+  id: string;
+  startedAt: number;  // ms
+  lastActivityAt: number;  // ms, in any tab
+  endedAt?: number;  // ms, set when session is ended by idle timeout
+}
+
+export interface ISessionHandlers {
+  onStart(payload: ISessionStartPayload): void;
+  onEnd(payload: ISessionEndPayload): void;
+}
+
+// message between tabs of the site
+export interface ISessionMessage {
+  type: 'start' | 'end' | 'activity';
+  payload?: ISessionStartPayload | ISessionEndPayload;
+}
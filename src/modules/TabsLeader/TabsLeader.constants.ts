@@ -0,0 +1,8 @@
+export const TABS_LEADER_LOCK_NAME = 'pushwoosh-leader';  // Web Locks lock and BroadcastChannel name
+export const KEY_TABS_LEADER = 'TABS_LEADER';  // IndexedDB lease of browsers without Web Locks
+
+export const TABS_LEADER_LEASE_TIMEOUT = 30000;
+export const TABS_LEADER_LEASE_RENEW_INTERVAL = 10000;
+
+export const TABS_MESSAGE_RELEASED = 'released';  // leader tab is closed, lease can be taken
+export const TABS_MESSAGE_EVENT = 'event';  // Pushwoosh event emitted in other tab
@@ -0,0 +1,229 @@
+import {getKeyValue, TKeyValue} from '../../storage';
+import {generateUUID, getNamespacedKey} from '../../functions';
+import Logger from '../../logger';
+
+import {
+  TABS_LEADER_LOCK_NAME,
+  KEY_TABS_LEADER,
+  TABS_LEADER_LEASE_TIMEOUT,
+  TABS_LEADER_LEASE_RENEW_INTERVAL,
+  TABS_MESSAGE_RELEASED
+} from './TabsLeader.constants';
+import {
+  ITabsLeaderLease,
+  ITabsLeaderHandlers,
+  ITabsMessage
+} from './TabsLeader.types';
+
+
+/**
+ * Elects one of the open tabs of Pushwoosh instance to call Pushwoosh API on init,
+ * other tabs get its results and events by BroadcastChannel.
+ * Leadership is held by Web Locks lock, by lease in IndexedDB in browsers without Web Locks.
+ * When the leader tab is closed, one of the others is elected.
+ */
+export class TabsLeader {
+  private readonly tabId: string = generateUUID();
+  private readonly name: string;
+  private readonly handlers: ITabsLeaderHandlers;
+  private readonly store: TKeyValue;
+  private channel?: BroadcastChannel;
+  private electionPromise?: Promise<boolean>;
+  private electionId: number = 0;
+  private releaseLock?: () => void;
+  private leaseTimer: any;
+  public isLeader: boolean = false;
+
+  constructor(handlers: ITabsLeaderHandlers, namespace: string = '', store: TKeyValue = getKeyValue(namespace)) {
+    this.name = getNamespacedKey(TABS_LEADER_LOCK_NAME, namespace);
+    this.handlers = handlers;
+    this.store = store;
+
+    this.onChannelMessage = this.onChannelMessage.bind(this);
+    this.onPageHide = this.onPageHide.bind(this);
+  }
+
+  /**
+   * Take leadership if no other tab holds it
+   * @returns {Promise<boolean>} is this tab leader now, later election is reported by onElected handler
+   */
+  public elect(): Promise<boolean> {
+    if (!this.electionPromise) {
+      this.electionId += 1;
+
+      if (typeof BroadcastChannel === 'function') {
+        this.channel = new BroadcastChannel(this.name);
+        this.channel.onmessage = this.onChannelMessage;
+      }
+
+      this.electionPromise = navigator.locks
+        ? this.electByLock(navigator.locks)
+        : this.electByLease();
+    }
+
+    return this.electionPromise;
+  }
+
+  /**
+   * Give up leadership and leave election, e.g. on reset of Pushwoosh instance.
+   * Other tab is elected at once, next elect() call takes part in election again.
+   */
+  public async release(): Promise<void> {
+    const election = this.electionPromise;
+    if (!election) {
+      return;
+    }
+
+    // waiting lock request of the finished election doesn't make this tab leader
+    this.electionPromise = undefined;
+    this.electionId += 1;
+    await election.catch(() => false);
+
+    clearTimeout(this.leaseTimer);
+    this.leaseTimer = undefined;
+    window.removeEventListener('pagehide', this.onPageHide);
+
+    if (this.releaseLock) {
+      this.releaseLock();
+      this.releaseLock = undefined;
+    }
+
+    if (this.isLeader) {
+      this.isLeader = false;
+      await this.releaseLease();
+    }
+
+    if (this.channel) {
+      this.channel.close();
+      this.channel = undefined;
+    }
+  }
+
+  /**
+   * Send message to other tabs of the instance
+   * @param message
+   */
+  public postMessage(message: ITabsMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+    }
+  }
+
+  private electByLock(locks: ILockManager): Promise<boolean> {
+    // lock is held until the tab is closed or leadership is released
+    const electionId = this.electionId;
+    const holdLock = () => new Promise<void>((resolve) => {
+      this.releaseLock = resolve;
+    });
+
+    return new Promise<boolean>((resolve, reject) => {
+      locks.request(this.name, {ifAvailable: true}, (lock) => {
+        if (!lock) {
+          resolve(false);
+          locks.request(this.name, () => {
+            if (electionId !== this.electionId) {
+              return Promise.resolve();
+            }
+            this.setLeader(true);
+            return holdLock();
+          });
+          return Promise.resolve();
+        }
+
+        this.isLeader = true;
+        resolve(true);
+        return holdLock();
+      })
+        .catch(reject);
+    });
+  }
+
+  private async electByLease(): Promise<boolean> {
+    window.addEventListener('pagehide', this.onPageHide);
+
+    this.isLeader = await this.acquireLease();
+    this.scheduleLeaseRenewal();
+
+    return this.isLeader;
+  }
+
+  /**
+   * Take expired lease or prolong own one
+   */
+  private async acquireLease(): Promise<boolean> {
+    const now = Date.now();
+    const lease = await this.store.update<ITabsLeaderLease | undefined>(KEY_TABS_LEADER, (current) => {
+      if (current && current.tabId !== this.tabId && current.expiresAt > now) {
+        return current;
+      }
+
+      return {
+        tabId: this.tabId,
+        expiresAt: now + TABS_LEADER_LEASE_TIMEOUT
+      };
+    });
+
+    return !!lease && lease.tabId === this.tabId;
+  }
+
+  private scheduleLeaseRenewal(delay: number = TABS_LEADER_LEASE_RENEW_INTERVAL): void {
+    clearTimeout(this.leaseTimer);
+    this.leaseTimer = setTimeout(() => this.renewLease(), delay);
+  }
+
+  private async renewLease(): Promise<void> {
+    try {
+      this.setLeader(await this.acquireLease());
+    } catch (error) {
+      Logger.write('error', error, 'Tabs leader lease fail');
+    }
+
+    this.scheduleLeaseRenewal();
+  }
+
+  private setLeader(isLeader: boolean): void {
+    const isElected = isLeader && !this.isLeader;
+    this.isLeader = isLeader;
+
+    if (isElected) {
+      this.handlers.onElected();
+    }
+  }
+
+  private onChannelMessage(event: MessageEvent): void {
+    const message: ITabsMessage = event.data || {};
+
+    if (message.type === TABS_MESSAGE_RELEASED) {
+      if (this.leaseTimer) {
+        this.scheduleLeaseRenewal(0);
+      }
+      return;
+    }
+
+    this.handlers.onMessage(message);
+  }
+
+  /**
+   * Release lease of the closed tab, so other tab can take it without waiting for timeout.
+   * Page restored from back-forward cache takes part in election again by renewal timer.
+   */
+  private onPageHide(): void {
+    if (!this.isLeader) {
+      return;
+    }
+
+    this.isLeader = false;
+    this.releaseLease();
+  }
+
+  /**
+   * Remove own lease and let other tabs take it at once
+   */
+  private releaseLease(): Promise<void> {
+    return this.store.update<ITabsLeaderLease | undefined>(KEY_TABS_LEADER, (current) => (
+      current && current.tabId === this.tabId ? undefined : current
+    ))
+      .then(() => this.postMessage({type: TABS_MESSAGE_RELEASED}))
+      .catch((error) => Logger.write('error', error, 'Tabs leader lease release fail'));
+  }
+}
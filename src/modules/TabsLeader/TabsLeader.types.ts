@@ -0,0 +1,20 @@
+export interface ITabsLeaderLease {
+  tabId: string;
+  expiresAt: number;  // ms
+}
+
+export interface ITabsLeaderHandlers {
+  onElected(): void;  // tab has become leader after the previous leader is closed
+  onMessage(message: ITabsMessage): void;
+}
+
+// message of the tabs of Pushwoosh instance
+export interface ITabsMessage {
+  type: string;
+  payload?: any;
+}
+
+export interface ITabsEventPayload {
+  event: string;
+  payload?: any;  // must be cloneable by structured clone
+}
@@ -0,0 +1,16 @@
+/**
+ * Tag value doesn't match the tags schema passed at init
+ */
+export class PushwooshTagError extends Error {
+  public readonly tagName: string;
+
+  constructor(tagName: string, message: string) {
+    super(message);
+
+    // restore prototype chain, it is broken for Error subclasses compiled to es5
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = 'PushwooshTagError';
+    this.tagName = tagName;
+  }
+}
@@ -0,0 +1,5 @@
+export const KEY_TAGS_CACHE = 'TAGS_CACHE';  // last known tags of the device
+
+export const TAG_OPERATION_INCREMENT = 'increment';
+export const TAG_OPERATION_APPEND = 'append';
+export const TAG_OPERATION_REMOVE = 'remove';
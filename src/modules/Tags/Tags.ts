@@ -0,0 +1,229 @@
+import {keyValue, TKeyValue} from '../../storage';
+import {isValueOfType} from '../../functions';
+
+import {
+  KEY_TAGS_CACHE,
+  TAG_OPERATION_INCREMENT,
+  TAG_OPERATION_APPEND,
+  TAG_OPERATION_REMOVE
+} from './Tags.constants';
+import {
+  TTags,
+  ITagsApi,
+  ITagOperation
+} from './Tags.types';
+import {PushwooshTagError} from './PushwooshTagError';
+
+
+/**
+ * Tags of the device with local copy of the last known values.
+ * Only changed tags are sent, values are validated by the schema passed at init.
+ */
+export class Tags {
+  private readonly api: ITagsApi;
+  private readonly store: TKeyValue;
+  private schema?: ITagsSchema;
+
+  constructor(api: ITagsApi, store: TKeyValue = keyValue) {
+    this.api = api;
+    this.store = store;
+  }
+
+  /**
+   * @param schema - types of the known tags, other tags are rejected
+   */
+  public setSchema(schema?: ITagsSchema): void {
+    this.schema = schema;
+  }
+
+  /**
+   * Get tags of the device
+   * @param refresh - request tags from Pushwoosh even if they are known locally
+   * @returns {Promise<TTags>}
+   * @throws {PushwooshApiError}
+   */
+  public async get(refresh: boolean = false): Promise<TTags> {
+    const cache = await this.getCache();
+    if (cache && !refresh) {
+      return cache;
+    }
+
+    const {result = {}} = await this.api.getTags() || {};
+    await this.store.set(KEY_TAGS_CACHE, result);
+
+    return result;
+  }
+
+  /**
+   * Send tags which values differ from the last known ones
+   * @param tags - null value removes tag
+   * @returns {Promise<TTags>} sent tags
+   * @throws {PushwooshTagError | PushwooshApiError}
+   */
+  public async set(tags: TTags): Promise<TTags> {
+    Object.keys(tags).forEach((name) => this.validate(name, tags[name]));
+
+    const cache = await this.getCache();
+    const changedTags = cache ? this.diff(cache, tags) : tags;
+
+    if (Object.keys(changedTags).length) {
+      await this.api.setTags(changedTags);
+      await this.merge(changedTags);
+    }
+
+    return changedTags;
+  }
+
+  /**
+   * Add value to the integer tag on the server side
+   * @param name
+   * @param value
+   * @throws {PushwooshTagError | PushwooshApiError}
+   */
+  public async increment(name: string, value: number = 1): Promise<void> {
+    this.validateOperation(name, 'integer', Math.floor(value) === value);
+
+    await this.sendOperation(name, {operation: TAG_OPERATION_INCREMENT, value});
+  }
+
+  /**
+   * Add values to the list tag on the server side
+   * @param name
+   * @param values
+   * @throws {PushwooshTagError | PushwooshApiError}
+   */
+  public async append(name: string, values: Array<string>): Promise<void> {
+    this.validateOperation(name, 'list', isValueOfType(values, 'list'));
+
+    await this.sendOperation(name, {operation: TAG_OPERATION_APPEND, value: values});
+  }
+
+  /**
+   * Remove values from the list tag on the server side
+   * @param name
+   * @param values
+   * @throws {PushwooshTagError | PushwooshApiError}
+   */
+  public async remove(name: string, values: Array<string>): Promise<void> {
+    this.validateOperation(name, 'list', isValueOfType(values, 'list'));
+
+    await this.sendOperation(name, {operation: TAG_OPERATION_REMOVE, value: values});
+  }
+
+  /**
+   * Update local copy by tags sent to Pushwoosh bypassing this module
+   * @param tags
+   */
+  public async merge(tags: TTags): Promise<void> {
+    const cache = await this.getCache();
+    if (!cache) {
+      return;
+    }
+
+    Object.keys(tags).forEach((name) => {
+      if (tags[name] === null) {
+        delete cache[name];
+      } else {
+        cache[name] = tags[name];
+      }
+    });
+
+    await this.store.set(KEY_TAGS_CACHE, cache);
+  }
+
+  /**
+   * Forget local copy, e.g. when tags are removed on the server side
+   */
+  public async clear(): Promise<void> {
+    await this.store.set(KEY_TAGS_CACHE, null);
+  }
+
+  private getCache(): Promise<TTags | null> {
+    return this.store.get(KEY_TAGS_CACHE, null);
+  }
+
+  private diff(cache: TTags, tags: TTags): TTags {
+    return Object.keys(tags).reduce((result: TTags, name) => {
+      const previous = cache[name] === undefined ? null : cache[name];
+
+      if (JSON.stringify(previous) !== JSON.stringify(tags[name])) {
+        result[name] = tags[name];
+      }
+
+      return result;
+    }, {});
+  }
+
+  private async sendOperation(name: string, operation: ITagOperation): Promise<void> {
+    await this.api.setTags({[name]: operation});
+
+    const cache = await this.getCache();
+    if (!cache || cache[name] === undefined) {
+      return;
+    }
+
+    const previous = cache[name];
+    const value = operation.value;
+    switch (operation.operation) {
+      case TAG_OPERATION_INCREMENT:
+        cache[name] = previous + <number>value;
+        break;
+      case TAG_OPERATION_APPEND:
+        cache[name] = [
+          ...previous,
+          ...(<Array<string>>value).filter((item) => previous.indexOf(item) === -1)
+        ];
+        break;
+      case TAG_OPERATION_REMOVE:
+        cache[name] = previous.filter((item: string) => (<Array<string>>value).indexOf(item) === -1);
+        break;
+    }
+
+    await this.store.set(KEY_TAGS_CACHE, cache);
+  }
+
+  /**
+   * Check value by the type of the tag in schema
+   * @param name
+   * @param value
+   * @throws {PushwooshTagError}
+   */
+  private validate(name: string, value: any): void {
+    if (!this.schema) {
+      return;
+    }
+
+    const type = this.schema[name];
+    if (!type) {
+      throw new PushwooshTagError(name, `Tag "${name}" is not found in tags schema`);
+    }
+
+    // null removes tag of any type
+    if (value === null) {
+      return;
+    }
+
+    if (!isValueOfType(value, type)) {
+      throw new PushwooshTagError(name, `Value ${JSON.stringify(value)} of tag "${name}" is not ${type}`);
+    }
+  }
+
+  private validateOperation(name: string, operationType: TTagType, isValidValue: boolean): void {
+    if (!isValidValue) {
+      throw new PushwooshTagError(name, `Invalid value of "${name}" tag operation`);
+    }
+
+    if (!this.schema) {
+      return;
+    }
+
+    const type = this.schema[name];
+    if (!type) {
+      throw new PushwooshTagError(name, `Tag "${name}" is not found in tags schema`);
+    }
+
+    if (type !== operationType) {
+      throw new PushwooshTagError(name, `Operation can't be applied to ${type} tag "${name}"`);
+    }
+  }
+}
@@ -0,0 +1,12 @@
+export type TTags = {[name: string]: any};
+
+export interface ITagsApi {
+  setTags(tags: TTags): Promise<any>;
+  getTags(): Promise<{result?: TTags} | undefined>;
+}
+
+// value of setTags call changing tag on the server side
+export interface ITagOperation {
+  operation: 'increment' | 'append' | 'remove';
+  value: number | Array<string>;
+}
@@ -0,0 +1,9 @@
+// stages of push handling in service worker, in order of calling
+export const WORKER_STAGE_PUSH_RECEIVED = 'pushReceived';
+export const WORKER_STAGE_PAYLOAD_PARSED = 'payloadParsed';
+export const WORKER_STAGE_BEFORE_SHOW = 'beforeShow';
+export const WORKER_STAGE_AFTER_SHOW = 'afterShow';
+
+// stages of notification handling
+export const WORKER_STAGE_CLICK = 'click';
+export const WORKER_STAGE_CLOSE = 'close';
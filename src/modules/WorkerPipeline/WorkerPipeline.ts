@@ -0,0 +1,48 @@
+import Logger from '../../logger';
+
+import {
+  WorkerPipelineContext,
+  WorkerPushContext,
+  WorkerNotificationContext
+} from './WorkerPipelineContext';
+import {
+  IWorkerPlugin,
+  TWorkerStage,
+  TWorkerPushStage,
+  TWorkerNotificationStage
+} from './WorkerPipeline.types';
+
+
+/**
+ * Plugins of push and notification handling in service worker
+ */
+export class WorkerPipeline {
+  private readonly plugins: Array<IWorkerPlugin> = [];
+
+  public use(plugin: IWorkerPlugin): void {
+    this.plugins.push(plugin);
+  }
+
+  /**
+   * Call handlers of the stage one by one.
+   * Failed plugin is logged and doesn't break the stage.
+   * @param stage
+   * @param context
+   */
+  public async run(stage: TWorkerPushStage, context: WorkerPushContext): Promise<void>;
+  public async run(stage: TWorkerNotificationStage, context: WorkerNotificationContext): Promise<void>;
+  public async run(stage: TWorkerStage, context: WorkerPipelineContext<any>): Promise<void> {
+    for (const plugin of this.plugins) {
+      const handler: ((context: WorkerPipelineContext<any>) => void | Promise<void>) | undefined = plugin[stage];
+      if (typeof handler !== 'function') {
+        continue;
+      }
+
+      try {
+        await handler.call(plugin, context);
+      } catch (error) {
+        await Logger.write('error', error, `${plugin.name} worker plugin ${stage} fail`);
+      }
+    }
+  }
+}
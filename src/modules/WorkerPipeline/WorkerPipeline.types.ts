@@ -0,0 +1,22 @@
+import {
+  WorkerPushContext,
+  WorkerNotificationContext
+} from './WorkerPipelineContext';
+
+
+/**
+ * Service worker plugin, handlers are called in order of plugins adding
+ */
+export interface IWorkerPlugin {
+  name: string;
+  pushReceived?(context: WorkerPushContext): void | Promise<void>;
+  payloadParsed?(context: WorkerPushContext): void | Promise<void>;
+  beforeShow?(context: WorkerPushContext): void | Promise<void>;
+  afterShow?(context: WorkerPushContext): void | Promise<void>;
+  click?(context: WorkerNotificationContext): void | Promise<void>;
+  close?(context: WorkerNotificationContext): void | Promise<void>;
+}
+
+export type TWorkerPushStage = 'pushReceived' | 'payloadParsed' | 'beforeShow' | 'afterShow';
+export type TWorkerNotificationStage = 'click' | 'close';
+export type TWorkerStage = Exclude<keyof IWorkerPlugin, 'name'>;
@@ -0,0 +1,58 @@
+import NotificationPayload from '../../models/NotificationPayload';
+
+
+/**
+ * Data of the handled event shared by plugins of the stage and next stages
+ */
+export class WorkerPipelineContext<E extends ExtendableEvent> {
+  public readonly event: E;
+  public readonly promises: Array<Promise<any>> = [];
+  public namespace: string;  // namespace of Pushwoosh instance the message is routed to
+  public isSkipped: boolean = false;
+
+  constructor(event: E, namespace: string = '') {
+    this.event = event;
+    this.namespace = namespace;
+  }
+
+  /**
+   * Skip default action: notification showing for push stages, window opening or button action for click,
+   * onNotificationClose for close
+   */
+  public skip(): void {
+    this.isSkipped = true;
+  }
+
+  /**
+   * Keep service worker alive until the work is done
+   * @param promise
+   */
+  public waitUntil(promise: Promise<any>): void {
+    this.promises.push(promise);
+  }
+}
+
+/**
+ * Fields are filled from stage to stage, plugins can replace them
+ */
+export class WorkerPushContext extends WorkerPipelineContext<PushEvent | ExtendableMessageEvent | NotificationEvent> {
+  public payload: any;  // push data or local notification payload, available from pushReceived
+  public notificationPayload?: NotificationPayload;  // from payloadParsed
+  public notificationOptions?: INotificationOptionsPayload;  // sent to pages by onPushDelivery, from payloadParsed
+  public title?: string;  // from beforeShow
+  public showOptions?: IShowNotificationOptions;  // from beforeShow
+
+  constructor(event: PushEvent | ExtendableMessageEvent | NotificationEvent, payload: any) {
+    super(event);
+    this.payload = payload;
+  }
+}
+
+export class WorkerNotificationContext extends WorkerPipelineContext<NotificationEvent> {
+  public notificationOptions: INotificationOptions;  // url can be replaced on click
+
+  constructor(event: NotificationEvent, notificationOptions: INotificationOptions) {
+    super(event, notificationOptions.namespace);
+    this.notificationOptions = notificationOptions;
+  }
+}
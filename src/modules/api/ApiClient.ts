@@ -1,14 +1,30 @@
 import apiCall from './apiCall';
+import {keyValue, TKeyValue} from '../../storage';
+import Params from '../data/Params';
+import {KEY_DEVICE_DATA_REMOVED} from '../../constants';
+import {PushwooshDataRemovedError} from './PushwooshApiError';
 
 
 export default class ApiClient {
+  private readonly store: TKeyValue;
+  private readonly paramsModule: Params;
+
+  constructor(
+    store: TKeyValue = keyValue,
+    paramsModule: Params = new Params(undefined, store)
+  ) {
+    this.store = store;
+    this.paramsModule = paramsModule;
+  }
+
   /**
    * Get inbox messages
    * @param payload
+   * @throws {PushwooshApiError}
    */
   async getInboxMessages(payload: IGetInboxMessagesRequest): Promise<IGetInboxMessagesResponse> {
     const methodName: TGetInboxMessagesMethod = 'getInboxMessages';
-    return apiCall<TGetInboxMessagesMethod, IGetInboxMessagesRequest, IGetInboxMessagesResponse>(
+    return this.call<TGetInboxMessagesMethod, IGetInboxMessagesRequest, IGetInboxMessagesResponse>(
       methodName,
       payload
     );
@@ -17,10 +33,11 @@ export default class ApiClient {
   /**
    * Update inbox message status
    * @param payload
+   * @throws {PushwooshApiError}
    */
   async inboxStatus(payload: IInboxStatusRequest): Promise<void> {
     const methodName: TInboxStatusMethod = 'inboxStatus';
-    return apiCall<TInboxStatusMethod, IInboxStatusRequest, undefined>(
+    return this.call<TInboxStatusMethod, IInboxStatusRequest, undefined>(
       methodName,
       payload
     );
@@ -29,13 +46,29 @@ export default class ApiClient {
   /**
    * Get InApp List
    * @param {IGetInAppsRequest} options
+   * @throws {PushwooshApiError}
    */
   async getInApps(options: IGetInAppsRequest): Promise<IGetInAppsResponse> {
     const methodName: TGetInAppsMethod = 'getInApps';
 
-    return apiCall<TGetInAppsMethod, IGetInAppsRequest, IGetInAppsResponse>(
+    return this.call<TGetInAppsMethod, IGetInAppsRequest, IGetInAppsResponse>(
       methodName,
       options,
     );
   }
+
+  /**
+   * Check that api can be called and call it
+   * @param methodName
+   * @param payload
+   */
+  private async call<M, Req, Res>(methodName: M, payload: Req): Promise<Res> {
+    // can't call any api methods if device data is removed
+    const dataIsRemoved = await this.store.get(KEY_DEVICE_DATA_REMOVED);
+    if (dataIsRemoved) {
+      throw new PushwooshDataRemovedError(`${methodName}`);
+    }
+
+    return apiCall<M, Req, Res>(methodName, payload, this.paramsModule);
+  }
 }
@@ -0,0 +1,58 @@
+/**
+ * Ordered middleware chain for Pushwoosh API calls.
+ * First added interceptor is the outermost one: it sees the request first and the response last.
+ * Every Pushwoosh instance has its own chain, service worker calls are not intercepted.
+ */
+export class ApiInterceptors {
+  private static instances: {[namespace: string]: ApiInterceptors} = {};
+  private interceptors: Array<TApiInterceptor> = [];
+
+  /**
+   * @param namespace - empty for default instance
+   */
+  public static getInstance(namespace: string = ''): ApiInterceptors {
+    if (!ApiInterceptors.instances[namespace]) {
+      ApiInterceptors.instances[namespace] = new ApiInterceptors();
+    }
+
+    return ApiInterceptors.instances[namespace];
+  }
+
+  public add(interceptor: TApiInterceptor): void {
+    this.interceptors.push(interceptor);
+  }
+
+  public isEmpty(): boolean {
+    return !this.interceptors.length;
+  }
+
+  public remove(interceptor: TApiInterceptor): void {
+    const index = this.interceptors.indexOf(interceptor);
+    if (index > -1) {
+      this.interceptors.splice(index, 1);
+    }
+  }
+
+  /**
+   * Pass context through all interceptors and call handler in the end of chain
+   * @param context
+   * @param handler - sends request and sets response to context
+   */
+  public run(context: IApiInterceptorContext, handler: () => Promise<void>): Promise<void> {
+    const interceptors = this.interceptors.slice();
+
+    const dispatch = (index: number): Promise<void> => {
+      if (index === interceptors.length) {
+        return handler();
+      }
+
+      try {
+        return Promise.resolve(interceptors[index](context, () => dispatch(index + 1)));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+
+    return dispatch(0);
+  }
+}
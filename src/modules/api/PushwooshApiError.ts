@@ -0,0 +1,106 @@
+export type TPushwooshApiErrorCode = 'network'
+  | 'http_status'
+  | 'status_code'
+  | 'data_removed'
+  | 'communication_disabled';
+
+
+/**
+ * Base error of Pushwoosh API calls
+ */
+export class PushwooshApiError extends Error {
+  public readonly code: TPushwooshApiErrorCode;
+  public readonly methodName: string;
+  public readonly isRetryable: boolean;  // call can be successful later with the same request
+
+  constructor(code: TPushwooshApiErrorCode, methodName: string, message: string, isRetryable: boolean = false) {
+    super(message);
+
+    // restore prototype chain, it is broken for Error subclasses compiled to es5
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = 'PushwooshApiError';
+    this.code = code;
+    this.methodName = methodName;
+    this.isRetryable = isRetryable;
+  }
+}
+
+/**
+ * Request has not reached Pushwoosh: offline, DNS, CORS, aborted etc.
+ */
+export class PushwooshNetworkError extends PushwooshApiError {
+  public readonly cause: any;
+
+  constructor(methodName: string, cause: any) {
+    super('network', methodName, `Network error during the ${methodName} call to Pushwoosh: ${cause}`, true);
+    this.name = 'PushwooshNetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Pushwoosh responded with HTTP status other than 200
+ */
+export class PushwooshHttpError extends PushwooshApiError {
+  public readonly status: number;
+
+  constructor(methodName: string, status: number, statusText: string = '') {
+    super(
+      'http_status',
+      methodName,
+      `HTTP ${status} ${statusText} during the ${methodName} call to Pushwoosh`,
+      status >= 500 || status === 429
+    );
+    this.name = 'PushwooshHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Pushwoosh responded with status_code other than 200, e.g. 210 for invalid arguments
+ */
+export class PushwooshStatusCodeError extends PushwooshApiError {
+  public readonly statusCode: number;
+  public readonly statusMessage: string;
+
+  constructor(methodName: string, statusCode: number, statusMessage: string = '') {
+    super(
+      'status_code',
+      methodName,
+      `Error occurred during the ${methodName} call to Pushwoosh: ${statusMessage}`,
+      statusCode >= 500
+    );
+    this.name = 'PushwooshStatusCodeError';
+    this.statusCode = statusCode;
+    this.statusMessage = statusMessage;
+  }
+}
+
+/**
+ * Device data has been removed by removeAllDeviceData, api can't be called anymore
+ */
+export class PushwooshDataRemovedError extends PushwooshApiError {
+  constructor(methodName: string) {
+    super('data_removed', methodName, `Can't call ${methodName}: device data has been removed`);
+    this.name = 'PushwooshDataRemovedError';
+  }
+}
+
+/**
+ * Communication is disabled by setCommunicationEnabled(false)
+ */
+export class PushwooshCommunicationDisabledError extends PushwooshApiError {
+  constructor(methodName: string) {
+    super('communication_disabled', methodName, `Can't call ${methodName}: communication is disabled`);
+    this.name = 'PushwooshCommunicationDisabledError';
+  }
+}
+
+/**
+ * Is failed call can be re-sent later with the same request
+ * @param error
+ */
+export function isRetryableApiError(error: any): boolean {
+  return error instanceof PushwooshApiError && error.isRetryable;
+}
@@ -1,47 +1,115 @@
-import Logger, {logAndRejectError} from '../../logger';
-import {keyValue} from '../../storage';
+import Logger from '../../logger';
 import {KEY_API_BASE_URL} from '../../constants';
 import Params from '../data/Params';
+import FetchTransport from './transports/FetchTransport';
+import XHRTransport from './transports/XHRTransport';
+import {ApiInterceptors} from './ApiInterceptors';
+import {
+  PushwooshApiError,
+  PushwooshNetworkError,
+  PushwooshHttpError,
+  PushwooshStatusCodeError
+} from './PushwooshApiError';
 
 
-export default function doApiCall<M, Req, Res>(methodName: M, request: Req): Promise<Res> {
-  return new Promise(async (resolve, reject) => {
-    const params = new Params();
-    const pushwooshUrl = await params.apiUrl;
-
-    try {
-      const url = `${pushwooshUrl}${methodName}`;
-
-      fetch(url, {
-        method: 'post',
-        headers: {'Content-Type': 'text/plain;charset=UTF-8'},
-        body: JSON.stringify({request})
-      }).then((response) => {
-        if (!response.ok) {
-          logAndRejectError(response.statusText || 'response not ok', reject);
-          return;
-        }
-
-        response.json().then(async (responseJson: any) => {
-          if (responseJson.status_code != 200) {
-            logAndRejectError(`Error occurred during the ${methodName} call to Pushwoosh: ${responseJson.status_message}`, reject);
-            return;
-          }
-
-          // Set base url
-          const {base_url = null} = responseJson;
-          if (base_url) {
-            keyValue.set(KEY_API_BASE_URL, base_url);
-            await params.setApiUrl(base_url);
-          }
-
-          Logger.write('apirequest', `${methodName} call with arguments: ${JSON.stringify(request)} to Pushwoosh has been successful. Result: ${JSON.stringify(responseJson.response)}`, 'createDoApiFetch');
-          resolve(responseJson.response);
-        });
-      });
-    }
-    catch (e) {
-      logAndRejectError(`Exception while ${methodName} the device: ${e}`, reject);
-    }
-  });
+const defaultTransport: ITransport = typeof fetch === 'function'
+  ? new FetchTransport()
+  : new XHRTransport();
+
+// custom transports of Pushwoosh instances by namespace
+const transports: {[namespace: string]: ITransport} = {};
+
+/**
+ * Set transport for Pushwoosh API calls of the instance.
+ * Service worker always uses the default one.
+ * @param customTransport
+ * @param namespace - empty for default instance
+ */
+export function setTransport(customTransport: ITransport, namespace: string = ''): void {
+  transports[namespace] = customTransport;
+}
+
+/**
+ * @param namespace - empty for default instance
+ */
+export function getTransport(namespace: string = ''): ITransport {
+  return transports[namespace] || defaultTransport;
+}
+
+/**
+ * @param namespace - empty for default instance
+ */
+export function hasCustomTransport(namespace: string = ''): boolean {
+  return !!transports[namespace];
+}
+
+function logAndThrowApiError(error: PushwooshApiError): never {
+  Logger.write('error', error, 'apiCall');
+  throw error;
+}
+
+/**
+ * Call Pushwoosh API method through interceptors and transport
+ * @param methodName
+ * @param request
+ * @param paramsModule - params of Pushwoosh instance, api url is stored there
+ * @throws {PushwooshNetworkError | PushwooshHttpError | PushwooshStatusCodeError}
+ */
+export default async function doApiCall<M, Req, Res>(
+  methodName: M,
+  request: Req,
+  paramsModule: Params = new Params()
+): Promise<Res> {
+  const context: IApiInterceptorContext = {
+    methodName: `${methodName}`,
+    request,
+    headers: {}
+  };
+
+  await ApiInterceptors.getInstance(paramsModule.store.namespace).run(context, () => send(context, paramsModule));
+
+  return context.response;
+}
+
+/**
+ * Send request from interceptors context and set response to it
+ * @param context
+ * @param paramsModule
+ */
+async function send(context: IApiInterceptorContext, paramsModule: Params): Promise<void> {
+  const {methodName, request, headers} = context;
+  const pushwooshUrl = await paramsModule.apiUrl;
+  const url = `${pushwooshUrl}${methodName}`;
+
+  let response: ITransportResponse;
+  try {
+    response = await getTransport(paramsModule.store.namespace).send({
+      methodName,
+      url,
+      body: {request},
+      headers
+    });
+  }
+  catch (e) {
+    return logAndThrowApiError(new PushwooshNetworkError(methodName, e));
+  }
+
+  if (response.status !== 200 || !response.body) {
+    return logAndThrowApiError(new PushwooshHttpError(methodName, response.status, response.statusText));
+  }
+
+  const responseJson = response.body;
+  if (responseJson.status_code != 200) {
+    return logAndThrowApiError(new PushwooshStatusCodeError(methodName, responseJson.status_code, responseJson.status_message));
+  }
+
+  // Set base url
+  const {base_url = null} = responseJson;
+  if (base_url) {
+    paramsModule.store.set(KEY_API_BASE_URL, base_url);
+    await paramsModule.setApiUrl(base_url);
+  }
+
+  Logger.write('apirequest', `${methodName} call with arguments: ${JSON.stringify(request)} to Pushwoosh has been successful. Result: ${JSON.stringify(responseJson.response)}`, 'apiCall');
+  context.response = responseJson.response;
 }
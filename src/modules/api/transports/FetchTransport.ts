@@ -0,0 +1,21 @@
+/**
+ * Transport based on Fetch API. Default transport, available on pages and in the service worker.
+ */
+export default class FetchTransport implements ITransport {
+  async send(request: ITransportRequest): Promise<ITransportResponse> {
+    const response = await fetch(request.url, {
+      method: 'post',
+      headers: {
+        'Content-Type': 'text/plain;charset=UTF-8',
+        ...request.headers
+      },
+      body: JSON.stringify(request.body)
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      body: response.ok ? await response.json() : undefined
+    };
+  }
+}
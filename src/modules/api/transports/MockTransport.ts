@@ -0,0 +1,83 @@
+type TMockResponse = {
+  status: number,
+  body?: PushwooshApiResponse
+};
+
+
+/**
+ * In-memory transport for tests. Never touches the network.
+ *
+ *  const transport = new MockTransport();
+ *  transport.setResponse('getTags', {result: {Language: 'en'}});
+ *  transport.setStatusCode('postEvent', 210, 'Argument error');
+ *  transport.setNetworkError('pushStat');
+ */
+export default class MockTransport implements ITransport {
+  public requests: Array<ITransportRequest> = [];
+  private responses: {[methodName: string]: TMockResponse} = {};
+  private networkErrors: Array<string> = [];
+
+  /**
+   * Successful response for method
+   * @param methodName
+   * @param response - "response" field of Pushwoosh API response
+   */
+  setResponse(methodName: string, response: any) {
+    this.responses[methodName] = {
+      status: 200,
+      body: {status_code: 200, status_message: 'OK', response}
+    };
+  }
+
+  /**
+   * Pushwoosh API error for method
+   * @param methodName
+   * @param statusCode
+   * @param statusMessage
+   */
+  setStatusCode(methodName: string, statusCode: number, statusMessage: string = '') {
+    this.responses[methodName] = {
+      status: 200,
+      body: {status_code: statusCode, status_message: statusMessage}
+    };
+  }
+
+  /**
+   * HTTP error for method
+   * @param methodName
+   * @param status
+   */
+  setHttpStatus(methodName: string, status: number) {
+    this.responses[methodName] = {status};
+  }
+
+  /**
+   * Network error for method
+   * @param methodName
+   */
+  setNetworkError(methodName: string) {
+    this.networkErrors.push(methodName);
+  }
+
+  /**
+   * Remove all responses and recorded requests
+   */
+  reset() {
+    this.requests = [];
+    this.responses = {};
+    this.networkErrors = [];
+  }
+
+  async send(request: ITransportRequest): Promise<ITransportResponse> {
+    this.requests.push(request);
+
+    if (this.networkErrors.indexOf(request.methodName) !== -1) {
+      throw new Error(`Network error on ${request.methodName} call`);
+    }
+
+    return this.responses[request.methodName] || {
+      status: 200,
+      body: {status_code: 200, status_message: 'OK', response: null}
+    };
+  }
+}
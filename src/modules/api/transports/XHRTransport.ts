@@ -0,0 +1,32 @@
+/**
+ * Transport based on XMLHttpRequest. Available on pages only.
+ */
+export default class XHRTransport implements ITransport {
+  send(request: ITransportRequest): Promise<ITransportResponse> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', request.url, true);
+      xhr.setRequestHeader('Content-Type', 'text/plain;charset=UTF-8');
+      Object.keys(request.headers || {}).forEach((name) => {
+        xhr.setRequestHeader(name, (<{[key: string]: string}>request.headers)[name]);
+      });
+
+      xhr.onload = () => {
+        try {
+          resolve({
+            status: xhr.status,
+            statusText: xhr.statusText,
+            body: xhr.status === 200 ? JSON.parse(xhr.responseText) : undefined
+          });
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () => {
+        reject(new Error(`Network error on ${request.methodName} call`));
+      };
+
+      xhr.send(JSON.stringify(request.body));
+    });
+  }
+}
@@ -1,32 +1,46 @@
-import {keyValue} from '../../storage';
+import {keyValue, TKeyValue} from '../../storage';
 
 
 export default class InboxParams {
+  store: TKeyValue;
+
+  constructor(store: TKeyValue = keyValue) {
+    this.store = store;
+  }
+
   // getInboxMessage last_code param
   get lastRequestCode(): Promise<string> {
-    return keyValue.get<TIDBInboxLastRequestCodeKey, string>('inbox.lastRequestCode', '');
+    return this.store.get<TIDBInboxLastRequestCodeKey, string>('inbox.lastRequestCode', '');
   }
 
   setLastRequestCode(lastCode: string): Promise<void> {
-    return keyValue.set<TIDBInboxLastRequestCodeKey, string>('inbox.lastRequestCode', lastCode);
+    return this.store.set<TIDBInboxLastRequestCodeKey, string>('inbox.lastRequestCode', lastCode);
   }
 
   // getInboxMessages last_request_time
   get lastRequestTime(): Promise<number> {
-    return keyValue.get<TIDBInboxLastRequestTimeKey, number>('inbox.lastRequestTime', 0);
+    return this.store.get<TIDBInboxLastRequestTimeKey, number>('inbox.lastRequestTime', 0);
   }
 
   setLastRequestTime(lastRequestTime: number): Promise<void> {
-    return keyValue.set<TIDBInboxLastRequestTimeKey, number>('inbox.lastRequestTime', lastRequestTime);
+    return this.store.set<TIDBInboxLastRequestTimeKey, number>('inbox.lastRequestTime', lastRequestTime);
   }
 
   // new messages count
   get newMessagesCount(): Promise<number> {
-    return keyValue.get<TIDBInboxNewMessagesCountKey, number>('inbox.newMessagesCount', 0);
+    return this.store.get<TIDBInboxNewMessagesCountKey, number>('inbox.newMessagesCount', 0);
   }
 
   setNewMessagesCount(count: number): Promise<void> {
-    return keyValue.set<TIDBInboxNewMessagesCountKey, number>('inbox.newMessagesCount', count);
+    return this.store.set<TIDBInboxNewMessagesCountKey, number>('inbox.newMessagesCount', count);
   }
 
+  // next getInboxMessages request loads all messages from the beginning
+  async reset(): Promise<void> {
+    await Promise.all([
+      this.setLastRequestCode(''),
+      this.setLastRequestTime(0),
+      this.setNewMessagesCount(0)
+    ]);
+  }
 }
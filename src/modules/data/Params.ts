@@ -1,4 +1,4 @@
-import {keyValue} from '../../storage';
+import {keyValue, TKeyValue} from '../../storage';
 import {
   KEY_API_PARAMS,
   DEFAULT_API_URL,
@@ -11,63 +11,68 @@ import ParamsBuilder from './ParamsBuilder';
 
 export default class Params {
   paramsBuilder: ParamsBuilder;
+  store: TKeyValue;
 
-  constructor(paramsBuilder: ParamsBuilder = new ParamsBuilder()) {
+  constructor(
+    paramsBuilder: ParamsBuilder = new ParamsBuilder(),
+    store: TKeyValue = keyValue
+  ) {
     this.paramsBuilder = paramsBuilder;
+    this.store = store;
   }
 
   // API url
   get apiUrl(): Promise<string> {
-    return keyValue.get<TIDBApiUrlKey, string>('params.apiUrl', DEFAULT_API_URL);
+    return this.store.get<TIDBApiUrlKey, string>('params.apiUrl', DEFAULT_API_URL);
   }
 
   async setApiUrl(apiUrl?: string): Promise<void> {
     if (!apiUrl) {
       const url = await this.paramsBuilder.buildApiUrl(this.appCode);
-      return keyValue.set<TIDBApiUrlKey, string>('params.apiUrl', url);
+      return this.store.set<TIDBApiUrlKey, string>('params.apiUrl', url);
     }
     else {
-      return keyValue.set<TIDBApiUrlKey, string>('params.apiUrl', apiUrl);
+      return this.store.set<TIDBApiUrlKey, string>('params.apiUrl', apiUrl);
     }
   }
 
   // Application code
   get appCode(): Promise<string> {
-    return keyValue.get<TIDBAppCodeKey, string>('params.applicationCode', '');
+    return this.store.get<TIDBAppCodeKey, string>('params.applicationCode', '');
   }
 
   setAppCode(appCode: string): Promise<void> {
-    return keyValue.set<TIDBAppCodeKey, string>('params.applicationCode', appCode);
+    return this.store.set<TIDBAppCodeKey, string>('params.applicationCode', appCode);
   }
 
   // HWID
   get hwid(): Promise<string> {
-    return keyValue.get<TIDBHwidKey, string>('params.hwid', '');
+    return this.store.get<TIDBHwidKey, string>('params.hwid', '');
   }
 
   async setHwid(hwid: string): Promise<void> {
     const {
       [KEY_API_PARAMS]: apiParams,
-    } = await keyValue.getAll();
+    } = await this.store.getAll();
 
     if (apiParams) {
       apiParams.hwid = hwid;
-      await keyValue.extend(KEY_API_PARAMS, apiParams);
+      await this.store.extend(KEY_API_PARAMS, apiParams);
     }
 
-    return keyValue.set<TIDBHwidKey, string>('params.hwid', hwid);
+    return this.store.set<TIDBHwidKey, string>('params.hwid', hwid);
   }
 
   // Default notification image
   get defaultNotificationImage(): Promise<string> {
-    return keyValue.get<TIDBDefaultNotificationImageKey, string>(
+    return this.store.get<TIDBDefaultNotificationImageKey, string>(
       'params.defaultNotificationImage',
       DEFAULT_NOTIFICATION_IMAGE
     );
   }
 
   setDefaultNotificationImage(defaultNotificationImage: string): Promise<void> {
-    return keyValue.set<TIDBDefaultNotificationImageKey, string>(
+    return this.store.set<TIDBDefaultNotificationImageKey, string>(
       'params.defaultNotificationImage',
       defaultNotificationImage
     );
@@ -75,14 +80,14 @@ export default class Params {
 
   // Default notification title
   get defaultNotificationTitle(): Promise<string> {
-    return keyValue.get<TIDBDefaultNotificationTitleKey, string>(
+    return this.store.get<TIDBDefaultNotificationTitleKey, string>(
       'params.defaultNotificationTitle',
       DEFAULT_NOTIFICATION_TITLE
     );
   }
 
   setDefaultNotificationTitle(defaultNotificationTitle: string): Promise<void> {
-    return keyValue.set<TIDBDefaultNotificationTitleKey, string>(
+    return this.store.set<TIDBDefaultNotificationTitleKey, string>(
       'params.defaultNotificationTitle',
       defaultNotificationTitle
     );
@@ -91,7 +96,7 @@ export default class Params {
 
   // User id
   get userId(): Promise<string> {
-    return keyValue.get<TIDBUserIdKey, string>('params.userId', '');
+    return this.store.get<TIDBUserIdKey, string>('params.userId', '');
   }
 
   async setUserId(userId: string): Promise<void> {
@@ -99,22 +104,22 @@ export default class Params {
     const newUserId = userId === 'user_id' ? '' : userId;  // fix for default value
 
     await this.setUserIdWasChanged(oldUserId !== newUserId);  // set changed user id flag for reset userId in pushwoosh system
-    return keyValue.set<TIDBUserIdKey, string>('params.userId', newUserId);
+    return this.store.set<TIDBUserIdKey, string>('params.userId', newUserId);
   }
 
   get userIdWasChanged() {
-    return keyValue.get<TIDBUserIdWasChangedKey, boolean>('params.userIdWasChanged', false);
+    return this.store.get<TIDBUserIdWasChangedKey, boolean>('params.userIdWasChanged', false);
   }
 
   async setUserIdWasChanged(userIdWasChanged: boolean) {
-    return keyValue.set<TIDBUserIdWasChangedKey, boolean>('params.userIdWasChanged', userIdWasChanged);
+    return this.store.set<TIDBUserIdWasChangedKey, boolean>('params.userIdWasChanged', userIdWasChanged);
   }
 
   // Subscribe popup last open time
   get subscriptionPopupLastOpen(): Promise<number> {
-    return keyValue.get<TSubscriptionPopupLastOpen, number>('params.subscriptionPopupLastOpen', 0);
+    return this.store.get<TSubscriptionPopupLastOpen, number>('params.subscriptionPopupLastOpen', 0);
   }
   async setSubscriptionPopupLastOpen(timestampWasChanged: boolean) {
-    return keyValue.set<TSubscriptionPopupLastOpen, boolean>('params.subscriptionPopupLastOpen', timestampWasChanged);
+    return this.store.set<TSubscriptionPopupLastOpen, boolean>('params.subscriptionPopupLastOpen', timestampWasChanged);
   }
 }
@@ -127,6 +127,18 @@ export default class Storage {
     return result || [];
   }
 
+  /**
+   * https://developer.mozilla.org/en-US/docs/Web/API/IDBObjectStore/clear
+   * @param storeName
+   */
+  async clear(storeName: TSdkStoreName) {
+    const db = await this.getDB();
+    const store = new Store(db, storeName);
+    const result = await store.clear();
+    db.close();
+    return result;
+  }
+
   /**
    * https://developer.mozilla.org/en-US/docs/Web/API/IDBObjectStore/count
    * @param storeName
@@ -90,6 +90,11 @@ export default class Store {
     });
   }
 
+  clear(): Promise<void> {
+    const request = this.store.clear();
+    return this.writeRequestPromise(request);
+  }
+
   count(query?: IDBKeyRange): Promise<number> {
     const request = this.store.count(query);
     return this.readRequestPromise<number, number>(request, 0);
@@ -0,0 +1,22 @@
+import {storeCreatorDecorator} from './helpers';
+import {
+  STORE_NAME_API_QUEUE,
+  KEY_PATH_BASE_INCREMENT
+} from './constants';
+
+
+/**
+ * Create api queue store migration
+ * @param database
+ */
+function createApiQueueStore(database: IDBDatabase) {
+  const store = database.createObjectStore(
+    STORE_NAME_API_QUEUE,
+    {keyPath: KEY_PATH_BASE_INCREMENT, autoIncrement: true}
+  );
+  store.createIndex('methodName', 'methodName', {unique: false});
+}
+
+export default [
+  storeCreatorDecorator(STORE_NAME_API_QUEUE, createApiQueueStore)
+];
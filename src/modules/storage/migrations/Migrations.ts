@@ -1,5 +1,6 @@
 import {default as migrationsInitial} from './initial';
 import {default as migrations26_11_2018} from './26-11-2018';
+import {default as migrations19_10_2026} from './19-10-2026';
 import DateModule from '../../DateModule';
 
 
@@ -14,6 +15,9 @@ export default class Migrations {
 
       // migrations for 2018-11-26
       '2018/11/26': migrations26_11_2018,
+
+      // migrations for 2026-10-19
+      '2026/10/19': migrations19_10_2026,
     };
     this.dateModule = dateModule;
   }
@@ -1,2 +1,2 @@
 // indexed DB version
-export default 7;
+export default 8;
@@ -0,0 +1,27 @@
+import FacebookModule from '../modules/FacebookModule';
+
+import {IPushwooshPlugin} from './plugins.types';
+
+
+export const facebookPlugin: IPushwooshPlugin = {
+  name: 'facebook',
+  isAvailableWithoutNotifications: true,
+
+  init(pw, initParams) {
+    const facebook = {
+      enable: false,
+      pageId: '',
+      containerClass: '',
+      ...initParams.facebook
+    };
+
+    if (facebook.enable) {
+      new FacebookModule({
+        pageId: facebook.pageId,
+        containerClass: facebook.containerClass,
+        applicationCode: initParams.applicationCode,
+        userId: initParams.userId || ''
+      });
+    }
+  }
+};
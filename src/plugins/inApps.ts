@@ -0,0 +1,28 @@
+import {InApps} from '../modules/InApps/InApps';
+import ApiClient from '../modules/api/ApiClient';
+import Logger from '../logger';
+
+import {IPushwooshPlugin} from './plugins.types';
+
+
+export const inAppsPlugin: IPushwooshPlugin = {
+  name: 'inApps',
+
+  async init(pw, initParams) {
+    const inAppInitParams = {
+      enable: false,
+      ...initParams.inApps
+    };
+
+    if (inAppInitParams.enable) {
+      const api = await pw.whenReady();
+      const inApps = pw.InApps = new InApps(inAppInitParams, api, new ApiClient(pw.store, pw.paramsModule), pw.store);
+
+      // in-apps of the previous user must not be shown
+      pw.push(['onUserChanged', () => {
+        inApps.reload()
+          .catch((error) => Logger.write('error', error, 'InApps reload fail'));
+      }]);
+    }
+  }
+};
@@ -0,0 +1,15 @@
+import {PWInboxWidget} from '@pushwoosh/web-push-inbox-widget';
+
+import {IPushwooshPlugin} from './plugins.types';
+
+
+export const inboxWidgetPlugin: IPushwooshPlugin = {
+  name: 'inboxWidget',
+
+  init(pw) {
+    if (pw.pwinbox && pw.inboxWidgetConfig.enable) {
+      // widget package is typed by own copy of Pushwoosh interface
+      pw.pwinboxWidget = new PWInboxWidget(pw as any);
+    }
+  }
+};
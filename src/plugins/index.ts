@@ -0,0 +1,26 @@
+import {subscribeWidgetPlugin} from './subscribeWidget';
+import {inboxWidgetPlugin} from './inboxWidget';
+import {subscribePopupPlugin} from './subscribePopup';
+import {facebookPlugin} from './facebook';
+import {inAppsPlugin} from './inApps';
+
+import {IPushwooshPlugin} from './plugins.types';
+
+
+export {
+  subscribeWidgetPlugin,
+  inboxWidgetPlugin,
+  subscribePopupPlugin,
+  facebookPlugin,
+  inAppsPlugin,
+  IPushwooshPlugin
+};
+
+// plugins of the script version of SDK
+export const defaultPlugins: Array<IPushwooshPlugin> = [
+  facebookPlugin,
+  inAppsPlugin,
+  subscribeWidgetPlugin,
+  inboxWidgetPlugin,
+  subscribePopupPlugin
+];
@@ -0,0 +1,11 @@
+import Pushwoosh from '../Pushwoosh';
+
+
+/**
+ * Optional module of Pushwoosh instance, initialized after SDK
+ */
+export interface IPushwooshPlugin {
+  name: string;
+  isAvailableWithoutNotifications?: boolean;  // init plugin in browsers without notifications support
+  init(pw: Pushwoosh, initParams: IInitParams): void | Promise<void>;
+}
@@ -0,0 +1,17 @@
+import {PWSubscribePopup} from '@pushwoosh/web-push-subscribe-popup';
+
+import {IPushwooshPlugin} from './plugins.types';
+
+
+export const subscribePopupPlugin: IPushwooshPlugin = {
+  name: 'subscribePopup',
+
+  async init(pw) {
+    if (pw.subscribePopupConfig && pw.subscribePopupConfig.enable) {
+      // popup package is typed by own copy of Pushwoosh interface
+      const popup = new PWSubscribePopup(pw as any);
+      await popup.initPopup();
+      pw.subscribePopup = popup;
+    }
+  }
+};
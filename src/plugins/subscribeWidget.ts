@@ -0,0 +1,14 @@
+import SubscribeWidget from '../SubscribeWidget';
+
+import {IPushwooshPlugin} from './plugins.types';
+
+
+export const subscribeWidgetPlugin: IPushwooshPlugin = {
+  name: 'subscribeWidget',
+
+  init(pw) {
+    if (pw.subscribeWidgetConfig.enable) {
+      new SubscribeWidget(pw);
+    }
+  }
+};
@@ -1,17 +1,18 @@
 import {sendFatalLogToRemoteServer} from './helpers/logger';
 import {
   keyValue,
+  getKeyValue,
   message as messagesLog,
 } from './storage';
 import {
   KEY_WORKER_VERSION,
-  KEY_LAST_OPEN_MESSAGE,
-  PERIOD_GOAL_EVENT,
   KEY_DELAYED_EVENT,
   EVENT_ON_PUSH_DELIVERY,
   EVENT_ON_NOTIFICATION_CLICK,
   EVENT_ON_NOTIFICATION_CLOSE,
-  EVENT_ON_PUT_NEW_MESSAGE_TO_INBOX_STORE
+  EVENT_ON_PUT_NEW_MESSAGE_TO_INBOX_STORE,
+  KEY_NAMESPACES,
+  KEY_INIT_PARAMS
 } from './constants';
 
 import {getVersion, parseSerializedNotificationParams} from './functions';
@@ -21,9 +22,37 @@ import PushwooshNotification from './worker/notification';
 import NotificationPayload from './models/NotificationPayload';
 import InboxMessages from './models/InboxMessages';
 import InboxMessagesPublic from './modules/InboxMessagesPublic';
+import Params from './modules/data/Params';
+import InboxParams from './modules/data/InboxParams';
+import ApiClient from './modules/api/ApiClient';
+import PayloadBuilder from './modules/api/PayloadBuilder';
+import { ApiQueue } from './modules/ApiQueue/ApiQueue';
+import { GoalAttribution } from './modules/GoalAttribution/GoalAttribution';
+import { ClickRouter } from './modules/ClickRouter/ClickRouter';
+import { NotificationGrouping } from './modules/NotificationGrouping/NotificationGrouping';
+import { LocalNotifications } from './modules/LocalNotifications/LocalNotifications';
+import { NotificationActions } from './modules/NotificationActions/NotificationActions';
+import { NOTIFICATION_ACTION_SNOOZE } from './modules/NotificationActions/NotificationActions.constants';
+import { API_QUEUE_SYNC_TAG } from './modules/ApiQueue/ApiQueue.constants';
+import {
+  LOCAL_NOTIFICATIONS_MESSAGE_TYPE,
+  LOCAL_NOTIFICATIONS_MAX_WAIT
+} from './modules/LocalNotifications/LocalNotifications.constants';
+import { ILocalNotificationsMessage } from './modules/LocalNotifications/LocalNotifications.types';
+import { WorkerPushContext, WorkerNotificationContext } from './modules/WorkerPipeline/WorkerPipelineContext';
+import {
+  WORKER_STAGE_PUSH_RECEIVED,
+  WORKER_STAGE_PAYLOAD_PARSED,
+  WORKER_STAGE_BEFORE_SHOW,
+  WORKER_STAGE_AFTER_SHOW,
+  WORKER_STAGE_CLICK,
+  WORKER_STAGE_CLOSE
+} from './modules/WorkerPipeline/WorkerPipeline.constants';
 
 const Pushwoosh = self.Pushwoosh = new WorkerPushwooshGlobal();
+const {pipeline} = Pushwoosh;
 const clickedNotifications: string[] = [];
+const apiQueue = ApiQueue.getInstance();
 
 
 self.addEventListener('install', onInstallEventHandler);
@@ -36,6 +65,10 @@ self.addEventListener('notificationclick', onClickNotificationEventHandler);
 
 self.addEventListener('notificationclose', onCloseNotificationEventHandler);
 
+self.addEventListener('sync', onSyncEventHandler);
+
+self.addEventListener('message', onMessageEventHandler);
+
 
 /**
  * On install SW event handler
@@ -71,7 +104,10 @@ function onActivateEventHandler(event: ExtendableEvent) {
       Logger.write('info', 'activate')
     ]);
 
-    await self.clients.claim()
+    await self.clients.claim();
+
+    // re-send api calls failed on pages or in previous worker runs
+    await apiQueue.flush(true);
   }
 
   event.waitUntil(
@@ -86,81 +122,114 @@ function onActivateEventHandler(event: ExtendableEvent) {
  */
 function onPushEventHandler(event: PushEvent): void {
   async function onPush(event: PushEvent): Promise<void> {
-    // wake up SW on all pages
-    await self.clients.claim();
-
-    // get payload
-    const payload = await event.data.json();
-
-    // create notification payload
-    const notificationPayload = new NotificationPayload(payload);
+    await handlePush(event, await event.data.json());
+  }
 
-    // get notification options
-    const notificationOptions = await notificationPayload.getNotificationOptionsPayload();
+  event.waitUntil(
+    onPush(event)
+      .catch((error) => onPushFailure(error, event))
+  );
+}
 
-    // get notification show options
-    const notificationShowOptions = await notificationPayload.getShowNotificationOptions();
+/**
+ * Show notification of push or local notification payload
+ * @param event
+ * @param pushPayload
+ */
+async function handlePush(event: PushEvent | ExtendableMessageEvent | NotificationEvent, pushPayload: any): Promise<void> {
+  // wake up SW on all pages
+  await self.clients.claim();
+
+  // get payload
+  const context = new WorkerPushContext(event, pushPayload);
+  await pipeline.run(WORKER_STAGE_PUSH_RECEIVED, context);
+  const {payload} = context;
+
+  // create notification payload
+  const notificationPayload = context.notificationPayload = new NotificationPayload(payload);
+
+  // route message to Pushwoosh instance of its application
+  const namespace = context.namespace = await getNamespace(notificationPayload.applicationCode);
+  notificationPayload.params = new Params(undefined, getKeyValue(namespace));
+
+  // get notification options
+  context.notificationOptions = await notificationPayload.getNotificationOptionsPayload();
+  await pipeline.run(WORKER_STAGE_PAYLOAD_PARSED, context);
+  const notificationOptions = context.notificationOptions;
+
+  // get notification show options
+  const {notificationGrouping} = await getInitParams(namespace);
+  context.title = await notificationPayload.getTitle();
+  context.showOptions = await new NotificationGrouping(notificationGrouping).apply(
+    notificationPayload,
+    await notificationPayload.getShowNotificationOptions(),
+    context.title
+  );
+  await pipeline.run(WORKER_STAGE_BEFORE_SHOW, context);
+  const notificationShowOptions = context.showOptions;
 
-    // get message hash
-    const messageHash = notificationPayload.messageHash;
+  // get message hash
+  const messageHash = notificationPayload.messageHash;
 
-    // logging in indexedDB;
-    await Logger.write('info', JSON.stringify(notificationOptions), 'onPush');
+  // logging in indexedDB;
+  await Logger.write('info', JSON.stringify(notificationOptions), 'onPush');
 
-    // show notification instance
-    const notification = new PushwooshNotification(
-      notificationShowOptions,
-      notificationPayload.duration,
-      notificationPayload.body,
-      await notificationPayload.getTitle()
-    );
+  // show notification instance
+  const notification = new PushwooshNotification(
+    notificationShowOptions,
+    notificationPayload.duration,
+    notificationPayload.body,
+    context.title
+  );
 
-    // Call receive push listeners
-    const callbacks = Pushwoosh.getListeners('onPush');
+  // Call receive push listeners
+  const callbacks = Pushwoosh.getListeners('onPush');
 
-    await callbacks.reduce((pr, fun) => pr.then(() => fun(notification)), Promise.resolve());
+  await callbacks.reduce((pr, fun) => pr.then(() => fun(notification)), Promise.resolve());
 
-    // Execute receive push actions
-    const onPushActions = [
-      notification.show(),  // Show notification
-      messagesLog.add({  // Put message to messages store
-        payload: payload,
-        parsedPayload: notificationOptions,
-        showOptions: notificationShowOptions
-      }),
-      broadcastClients({type: EVENT_ON_PUSH_DELIVERY, payload: notificationOptions}),  // post message to window clients
-    ];
-
-    // Send delivery statistic
-    if (messageHash) {
-      onPushActions.push(
-        Pushwoosh.initApi().then(() => Pushwoosh.api.messageDeliveryEvent(messageHash))
-      );
-    }
+  if (context.isSkipped) {
+    notification.cancel();
+  }
 
-    // Inbox message actions
-    if (notificationPayload.inboxId !== '') {
-      const inboxMessages = new InboxMessages();
-      const inboxMessagesPublic = new InboxMessagesPublic();
-      const inboxMessagePayload = await notificationPayload.getInboxMessage();
-
-      const payload = await inboxMessagesPublic.publicMessageBuilder(inboxMessagePayload);
-      onPushActions.push(
-        inboxMessages.putMessage(inboxMessagePayload),  // put message to inboxMessages store
-        broadcastClients({  // post message to window clients
-          type: EVENT_ON_PUT_NEW_MESSAGE_TO_INBOX_STORE,
-          payload
-        })
-      );
-    }
+  // Execute receive push actions
+  const onPushActions = [
+    showNotification(notification, context),  // Show notification
+    messagesLog.add({  // Put message to messages store
+      payload: payload,
+      parsedPayload: notificationOptions,
+      showOptions: notificationShowOptions
+    }),
+    broadcastClients({type: EVENT_ON_PUSH_DELIVERY, payload: notificationOptions, namespace}),  // post message to window clients
+    apiQueue.flush(true)  // push received, so connection is available. Re-send failed api calls
+  ];
+
+  // Send delivery statistic, snoozed notification has been delivered already
+  if (messageHash && !notificationPayload.isSnoozed) {
+    onPushActions.push(
+      Pushwoosh.initApi(namespace).then((api) => api.messageDeliveryEvent(messageHash))
+    );
+  }
 
-    await Promise.all(onPushActions)
+  // Inbox message actions
+  if (notificationPayload.inboxId !== '') {
+    const {inboxMessages, inboxMessagesPublic} = createInbox(namespace);
+    const inboxMessagePayload = await notificationPayload.getInboxMessage();
+
+    const payload = await inboxMessagesPublic.publicMessageBuilder(inboxMessagePayload);
+    onPushActions.push(
+      inboxMessages.putMessage(inboxMessagePayload),  // put message to inboxMessages store
+      broadcastClients({  // post message to window clients
+        type: EVENT_ON_PUT_NEW_MESSAGE_TO_INBOX_STORE,
+        payload,
+        namespace
+      })
+    );
   }
 
-  event.waitUntil(
-    onPush(event)
-      .catch((error) => onPushFailure(error, event))
-  );
+  await Promise.all(onPushActions);
+
+  // work added by plugins
+  await Promise.all(context.promises);
 }
 
 /**
@@ -173,44 +242,57 @@ function onClickNotificationEventHandler(event: NotificationEvent): void {
     await self.clients.claim();
 
     // get notification options
-    const notificationOptions = await parseNotificationEvent(event);
+    const context = new WorkerNotificationContext(event, await parseNotificationEvent(event));
+    await pipeline.run(WORKER_STAGE_CLICK, context);
+    const {notificationOptions} = context;
 
     const {
       messageHash,
       url,
       code,
-      inboxId
+      inboxId,
+      namespace = '',
+      snoozed,
+      button
     } = notificationOptions;
 
     if (code) {
       clickedNotifications.push(code);
     }
 
-    if (inboxId !== '') {
-      const inboxMessages = new InboxMessages();
+    // button action is not an opening of inbox message
+    if (inboxId !== '' && !NotificationActions.isAction(button)) {
+      const {inboxMessages} = createInbox(namespace);
 
       const message = await inboxMessages.getMessage(inboxId);
-      (<TInboxMessageStatusOpen>message.status) = 3;
-      await inboxMessages.putMessage(message);
+      if (message) {
+        (<TInboxMessageStatusOpen>message.status) = 3;
+        await inboxMessages.putMessage(message);
+      }
     }
 
     event.notification.close();
 
-    const message = {type: EVENT_ON_NOTIFICATION_CLICK, payload: notificationOptions};
+    const message = {type: EVENT_ON_NOTIFICATION_CLICK, payload: notificationOptions, namespace};
+
+    if (url && !context.isSkipped) {
+      const clickRouting = notificationOptions.clickRouting || (await getInitParams(namespace)).clickRouting;
 
-    if (url) {
       await event.waitUntil(self.clients.matchAll({type: 'window'})
-        .then((clientList: Array<TServiceWorkerClientExtended>) => openWindow(clientList, url, message)));
+        .then((clientList: Array<TServiceWorkerClientExtended>) => openWindow(clientList, url, message, clickRouting)));
     }
 
     return Promise.all([
-      Pushwoosh.initApi().then(() => Pushwoosh.api.pushStat(messageHash)),
-      keyValue.set(KEY_LAST_OPEN_MESSAGE, {
-        url,
-        messageHash,
-        expiry: Date.now() + PERIOD_GOAL_EVENT
-      }),
-      broadcastClients(message)
+      NotificationActions.isAction(button) && !context.isSkipped && runButtonAction(event, button, notificationOptions),
+      // click statistics of snoozed notification is sent by the snooze button click
+      // local notification has no message hash and statistics
+      !snoozed && messageHash && Pushwoosh.initApi(namespace).then((api) => api.pushStat(messageHash)),
+      // dismiss, snooze and setTags buttons don't open the message
+      messageHash && !NotificationActions.isAction(button)
+        && new GoalAttribution(getKeyValue(namespace)).addOpen(messageHash, 'push'),
+      broadcastClients(message),
+      apiQueue.flush(true),
+      ...context.promises
     ]);
   }
 
@@ -220,6 +302,36 @@ function onClickNotificationEventHandler(event: NotificationEvent): void {
   );
 }
 
+/**
+ * Run typed action of clicked button with api of the message Pushwoosh instance
+ * @param event
+ * @param button
+ * @param notificationOptions
+ */
+async function runButtonAction(
+  event: NotificationEvent,
+  button: INotificationButton,
+  notificationOptions: INotificationOptions
+): Promise<void> {
+  const {namespace = ''} = notificationOptions;
+  const store = getKeyValue(namespace);
+  const api = await Pushwoosh.initApi(namespace);
+  const {inboxMessagesPublic} = createInbox(namespace);
+
+  const notificationActions = new NotificationActions(
+    api,
+    new LocalNotifications(store),
+    new Params(undefined, store),
+    inboxMessagesPublic
+  );
+  await notificationActions.run(button, notificationOptions);
+
+  // snoozed notification is shown if worker can be kept alive until then
+  if (button.type === NOTIFICATION_ACTION_SNOOZE) {
+    await showLocalNotifications(event, namespace);
+  }
+}
+
 /**
  * On close notification event handler
  * @param event
@@ -240,9 +352,20 @@ function onCloseNotificationEventHandler(event: NotificationEvent) {
     const index = clickedNotifications.indexOf(code);
     if (index >= 0) {
       clickedNotifications.splice(index, 1);
-    } else {
-      return broadcastClients({type: EVENT_ON_NOTIFICATION_CLOSE, payload: notificationOptions})
+      return;
     }
+
+    const context = new WorkerNotificationContext(event, notificationOptions);
+    await pipeline.run(WORKER_STAGE_CLOSE, context);
+
+    await Promise.all([
+      !context.isSkipped && broadcastClients({
+        type: EVENT_ON_NOTIFICATION_CLOSE,
+        payload: context.notificationOptions,
+        namespace: context.namespace
+      }),
+      ...context.promises
+    ]);
   }
 
   event.waitUntil(
@@ -251,6 +374,73 @@ function onCloseNotificationEventHandler(event: NotificationEvent) {
   )
 }
 
+/**
+ * On background sync event handler
+ * Replay api calls stored while device was offline, e.g. delivery and click statistics
+ * @param event
+ */
+function onSyncEventHandler(event: SyncEvent) {
+  if (event.tag !== API_QUEUE_SYNC_TAG) {
+    return;
+  }
+
+  event.waitUntil(
+    apiQueue.sync()
+      .catch((error) => onSyncFailure(error, event))
+  );
+}
+
+/**
+ * On message SW event handler
+ * Show local notifications scheduled by pages
+ * @param event
+ */
+function onMessageEventHandler(event: ExtendableMessageEvent) {
+  const message: ILocalNotificationsMessage = event.data;
+  if (!message || message.type !== LOCAL_NOTIFICATIONS_MESSAGE_TYPE) {
+    return;
+  }
+
+  event.waitUntil(
+    showLocalNotifications(event, message.namespace || '')
+      .catch(onLocalNotificationsFailure)
+  );
+}
+
+/**
+ * Show due local notifications and wait for the next one while worker can be kept alive.
+ * Later ones are shown when a page of the site is opened again.
+ * @param event
+ * @param namespace
+ */
+async function showLocalNotifications(event: ExtendableMessageEvent | NotificationEvent, namespace: string): Promise<void> {
+  const localNotifications = new LocalNotifications(getKeyValue(namespace));
+
+  const notifications = await localNotifications.takeDue();
+  await Promise.all(notifications.map(({payload}) => handlePush(event, payload)));
+
+  const nextTime = await localNotifications.getNextTime();
+  if (nextTime === undefined || nextTime - Date.now() > LOCAL_NOTIFICATIONS_MAX_WAIT) {
+    return;
+  }
+
+  await new Promise((resolve) => setTimeout(resolve, Math.max(nextTime - Date.now(), 0)));
+  await showLocalNotifications(event, namespace);
+}
+
+/**
+ * Show notification unless it is skipped by plugins or canceled by onPush listeners
+ * @param notification
+ * @param context
+ */
+async function showNotification(notification: PushwooshNotification, context: WorkerPushContext): Promise<void> {
+  await notification.show();
+
+  if (!notification.isCanceled) {
+    await pipeline.run(WORKER_STAGE_AFTER_SHOW, context);
+  }
+}
+
 /**
  * Post message to all Window Clients
  * @param msg
@@ -263,39 +453,68 @@ async function broadcastClients(msg: IPWBroadcastClientsParams) {
 async function openWindow(
   clientList: Array<TServiceWorkerClientExtended>,
   url: string,
-  message: { type: string, payload: any }
+  message: IPWBroadcastClientsParams,
+  clickRouting?: IClickRoutingParams
 ) {
-  const isExistFocusedWindow = clientList.some((client: TServiceWorkerClientExtended): boolean => client.focused);
-  const hasNewUrl = clientList.every((client: TServiceWorkerClientExtended): boolean => client.url !== url && url !== '/');
-
-  if (isExistFocusedWindow && !hasNewUrl) {
+  const isRouted = await new ClickRouter(clickRouting).route(clientList, url);
+  if (isRouted) {
     return;
   }
 
-  for (let index = clientList.length - 1; index > -1; --index) {
-    const client = clientList[index];
-    if ((url === client.url || url === '/') && 'focus' in client) {
-      client.focus();
-      return;
-    }
-  }
-
   if (self.clients.openWindow) {
-    await keyValue.set(KEY_DELAYED_EVENT, message);
+    await getKeyValue(message.namespace).set(KEY_DELAYED_EVENT, message);
     return self.clients.openWindow(url);
   }
 }
 
+/**
+ * Init params of Pushwoosh instance saved by page
+ * @param namespace
+ */
+async function getInitParams(namespace: string): Promise<Partial<IInitParams>> {
+  return await getKeyValue(namespace).get(KEY_INIT_PARAMS) || {};
+}
+
+/**
+ * Inbox of Pushwoosh instance, messages of other instances are not available by it
+ * @param namespace
+ */
+function createInbox(namespace: string): {inboxMessages: InboxMessages, inboxMessagesPublic: InboxMessagesPublic} {
+  const store = getKeyValue(namespace);
+  const params = new Params(undefined, store);
+  const inboxParams = new InboxParams(store);
+  const apiClient = new ApiClient(store, params);
+  const payloadBuilder = new PayloadBuilder(params, inboxParams);
+
+  const inboxMessages = new InboxMessages(undefined, params, inboxParams, undefined, apiClient, payloadBuilder);
+  const inboxMessagesPublic = new InboxMessagesPublic(inboxMessages, undefined, apiClient, payloadBuilder, params);
+
+  return {inboxMessages, inboxMessagesPublic};
+}
+
+/**
+ * Get namespace of Pushwoosh instance registered for the application
+ * @param applicationCode
+ */
+async function getNamespace(applicationCode: string): Promise<string> {
+  const namespaces: {[applicationCode: string]: string} = await keyValue.get(KEY_NAMESPACES) || {};
+  return applicationCode && namespaces[applicationCode] || '';
+}
+
 async function parseNotificationEvent(event: NotificationEvent): Promise<INotificationOptions> {
   const {notification = {}} = event;
-  const {data: notificationData} = notification;
-  const notificationTag = parseSerializedNotificationParams(notification.tag, {});
+  const notificationData = notification.data || {};
+  // notifications shown by previous worker versions keep url, hash and custom data in tag
+  const notificationTag = 'url' in notificationData
+    ? notificationData
+    : parseSerializedNotificationParams(notification.tag, {});
 
   let url = '';
+  let button: INotificationButton | undefined;
 
   if (event.action && Array.isArray(notificationData.buttons)) {
-    const button = notificationData.buttons.find((button: INotificationButton) => button.action === event.action) || {};
-    url = button.url;
+    button = notificationData.buttons.find((button: INotificationButton) => button.action === event.action);
+    url = button && button.url || '';
   } else {
     url = notificationTag.url;
   }
@@ -312,13 +531,17 @@ async function parseNotificationEvent(event: NotificationEvent): Promise<INotifi
     code: notificationData.code,
     campaignCode: notificationData.campaignCode,
     inboxId: notificationData.inboxId,
+    namespace: notificationData.namespace || '',
+    clickRouting: notificationData.clickRouting,
+    snoozed: Boolean(notificationData.snoozed),
 
     messageHash: notificationTag.messageHash,
     customData: notificationTag.customData,
     openUrl: notificationTag.url,
 
     tag: notification.tag,
-    url
+    url,
+    button
   };
 }
 
@@ -380,6 +603,19 @@ async function onClickNotificationFailure(error: Error | string): Promise<void>
   })
 }
 
+async function onSyncFailure(error: Error | string, event: SyncEvent): Promise<void> {
+  await Logger.write('error', error, 'onSync');
+
+  // rethrow for retry sync by browser
+  if (!event.lastChance) {
+    throw error;
+  }
+}
+
+async function onLocalNotificationsFailure(error: Error | string): Promise<void> {
+  await Logger.write('error', error, 'onMessage');
+}
+
 async function closeNotificationFailure(error: Error | string): Promise<void> {
   const data = await keyValue.getAll();
 
@@ -43,11 +43,29 @@ function getInstanceWithPromise(executor: any): any {
   ));
 }
 
-function createKeyValue(name: string) {
+/**
+ * Key of named instance has "<namespace>/" prefix
+ * @param key
+ */
+function isNamespacedKey(key: string): boolean {
+  return key.indexOf('/') !== -1;
+}
+
+/**
+ * Key value store. Keys of the named instance are prefixed with "<namespace>/",
+ * so several applications on the same origin don't share their params.
+ * @param name - object store name
+ * @param namespace - instance name, empty for default instance
+ */
+function createKeyValue(name: string, namespace: string = '') {
+  const prefix = namespace ? `${namespace}/` : '';
+
   return {
+    namespace,
+
     get<K extends string, D>(key: K, defaultValue?: D) {
       return getInstanceWithPromise((database: IDBDatabase, resolve: any, reject: any) => {
-        const request = database.transaction(name).objectStore(name).get(key);
+        const request = database.transaction(name).objectStore(name).get(`${prefix}${key}`);
 
         /** @TODO
          * we cant invoke "resolve" or "reject" in onsuccess or onerror because
@@ -105,7 +123,12 @@ function createKeyValue(name: string) {
         cursor.onsuccess = (event) => {
           const cursorResult = (event.target as any).result;
           if (cursorResult) {
-            result[cursorResult.key] = cursorResult.value.value;
+            const key = `${cursorResult.key}`;
+            if (prefix && key.indexOf(prefix) === 0) {
+              result[key.slice(prefix.length)] = cursorResult.value.value;
+            } else if (!prefix && !isNamespacedKey(key)) {
+              result[key] = cursorResult.value.value;
+            }
             cursorResult.continue();
           } else {
             isComplete = true;
@@ -116,6 +139,54 @@ function createKeyValue(name: string) {
       });
     },
 
+    /**
+     * Delete all keys of the namespace, keys without namespace for default instance
+     */
+    clear() {
+      return getInstanceWithPromise((database: IDBDatabase, resolve: any, reject: any) => {
+        const cursor = database.transaction([name], 'readwrite').objectStore(name).openCursor();
+
+        cursor.onsuccess = (event) => {
+          const cursorResult = (event.target as any).result;
+          if (!cursorResult) {
+            resolve();
+            return;
+          }
+
+          const key = `${cursorResult.key}`;
+          if (prefix ? key.indexOf(prefix) === 0 : !isNamespacedKey(key)) {
+            cursorResult.delete();
+          }
+          cursorResult.continue();
+        };
+        cursor.onerror = () => reject(cursor.error);
+      });
+    },
+
+    /**
+     * Read and write value in one readwrite transaction,
+     * so updates of the same key from other tabs can't interleave
+     * @param key
+     * @param updater - returns new value by the current one
+     * @returns new value
+     */
+    update<D>(key: string, updater: (value: D | undefined) => D): Promise<D> {
+      return getInstanceWithPromise((database: IDBDatabase, resolve: any, reject: any) => {
+        const transaction = database.transaction([name], 'readwrite');
+        const objectStore = transaction.objectStore(name);
+        const request = objectStore.get(`${prefix}${key}`);
+        let value: D;
+
+        request.onsuccess = () => {
+          const {result} = request;
+          value = updater(result ? result.value : undefined);
+          objectStore.put({key: `${prefix}${key}`, value});
+        };
+        transaction.oncomplete = () => resolve(value);
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+
     async extend(key: string, value: any) {
       const oldValues = await this.get(key);
       const {...newValues} = value;
@@ -124,7 +195,7 @@ function createKeyValue(name: string) {
 
     set<K, D>(key: K, value: D) {
       return getInstanceWithPromise((database: IDBDatabase, resolve: any, reject: any) => {
-        const request = database.transaction([name], 'readwrite').objectStore(name).put({key, value});
+        const request = database.transaction([name], 'readwrite').objectStore(name).put({key: `${prefix}${key}`, value});
         let isComplete = false;
         let isError = false;
         let timeout: any;
@@ -195,6 +266,18 @@ export abstract class LogBase {
     });
   }
 
+  clear() {
+    return getInstanceWithPromise((database: IDBDatabase, resolve: any, reject: any) => {
+      const request = database.transaction([this.name], 'readwrite').objectStore(this.name).clear();
+      request.onsuccess = () => {
+        resolve();
+      };
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
   getAll() {
     return getInstanceWithPromise((database: IDBDatabase, resolve: any, reject: any) => {
       const result: any[] = [];
@@ -250,6 +333,26 @@ export class LogMessage extends LogBase {
   }
 }
 
+export type TKeyValue = ReturnType<typeof createKeyValue>;
+
 export const keyValue = createKeyValue(STORE_NAME_KEY_VALUE);
+
+const namespacedKeyValues: {[namespace: string]: TKeyValue} = {};
+
+/**
+ * Get key value store of named Pushwoosh instance
+ * @param namespace - empty for default instance
+ */
+export function getKeyValue(namespace: string = ''): TKeyValue {
+  if (!namespace) {
+    return keyValue;
+  }
+
+  if (!namespacedKeyValues[namespace]) {
+    namespacedKeyValues[namespace] = createKeyValue(STORE_NAME_KEY_VALUE, namespace);
+  }
+
+  return namespacedKeyValues[namespace];
+}
 export const log = new LogLog();
 export const message = new LogMessage();
@@ -348,7 +348,7 @@ class SubscribeWidget {
    * @returns {Promise<void>}
    */
   async triggerPwEvent(event: string, widget: string) {
-    if (this.pw.api === undefined) {
+    if (!this.pw.api) {
       return;
     }
 
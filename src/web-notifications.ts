@@ -1,8 +1,7 @@
 import PushwooshSingleton from './Pushwoosh';
 import {getGlobal} from './functions';
-import 'SubscribeWidget';
-import './inboxWidget';
-import './subscribePopup';
+import Logger from './logger';
+import {defaultPlugins} from './plugins';
 
 function main() {
   const global = getGlobal();
@@ -15,8 +14,15 @@ function main() {
   }
 
   Pushwoosh = new PushwooshSingleton();
+  defaultPlugins.forEach((plugin) => Pushwoosh.use(plugin));
   if (Array.isArray(predefinedCommands)) {
-    predefinedCommands.forEach(c => Pushwoosh.push(c));
+    predefinedCommands.forEach((c) => {
+      try {
+        Pushwoosh.push(c);
+      } catch (error) {
+        Logger.write('error', error, 'invalid Pushwoosh command');
+      }
+    });
   }
 
   global.Pushwoosh = Pushwoosh;
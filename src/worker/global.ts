@@ -1,14 +1,26 @@
-import {keyValue} from '../storage';
+import {getKeyValue} from '../storage';
 import {
   KEY_INIT_PARAMS,
-  KEY_API_PARAMS,
-  KEY_LAST_OPEN_MESSAGE
+  KEY_API_PARAMS
 } from '../constants';
 import API from '../API';
+import Params from '../modules/data/Params';
+import { WorkerPipeline } from '../modules/WorkerPipeline/WorkerPipeline';
+import { IWorkerPlugin } from '../modules/WorkerPipeline/WorkerPipeline.types';
 
 
 export default class WorkerPushwooshGlobal {
   _listeners: {[key: string]: TPWCanWaitCallback[]} = {};
+  readonly pipeline: WorkerPipeline = new WorkerPipeline();
+
+  /**
+   * Add plugin of push and notification handling
+   * @param plugin
+   */
+  use(plugin: IWorkerPlugin): this {
+    this.pipeline.use(plugin);
+    return this;
+  }
 
   push(f: ['onPush', TPWCanWaitCallback]) {
     if (Array.isArray(f) && f[0] === 'onPush' && typeof f[1] === 'function') {
@@ -25,10 +37,14 @@ export default class WorkerPushwooshGlobal {
 
   api: API;
 
-  async initApi() {
-    const values = await keyValue.getAll();
+  /**
+   * Init api of Pushwoosh instance
+   * @param namespace - empty for default instance
+   */
+  async initApi(namespace: string = ''): Promise<API> {
+    const store = getKeyValue(namespace);
+    const values = await store.getAll();
     const initParams: IInitParamsWithDefaults = values[KEY_INIT_PARAMS];
-    const lastOpenMessage: TPWLastOpenMessage = values[KEY_LAST_OPEN_MESSAGE] || {};
 
     // TODO apiParams will be deprecated in next minor version
     const driverApiParams: TPWAPIParams = values[KEY_API_PARAMS];
@@ -43,6 +59,7 @@ export default class WorkerPushwooshGlobal {
       apiParams.userId = initParams.userId
     }
 
-    this.api = new API(apiParams, lastOpenMessage);
+    this.api = new API(apiParams, initParams.goalAttribution, new Params(undefined, store));
+    return this.api;
   }
 }
@@ -62,5 +62,9 @@ export default class PushwooshNotification {
   cancel() {
     this._canceled = true;
   }
+
+  get isCanceled(): boolean {
+    return this._canceled;
+  }
 }
 
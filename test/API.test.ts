@@ -0,0 +1,64 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import PushwooshAPI from '../src/API';
+import Logger from '../src/logger';
+import Params from '../src/modules/data/Params';
+import MockTransport from '../src/modules/api/transports/MockTransport';
+import {ApiQueue} from '../src/modules/ApiQueue/ApiQueue';
+import {setTransport} from '../src/modules/api/apiCall';
+import {getKeyValue} from '../src/storage';
+import {KEY_API_PARAMS} from '../src/constants';
+import * as remoteLogger from '../src/helpers/logger';
+
+
+const NAMESPACE = 'api-test';
+
+describe('API', () => {
+  const store = getKeyValue(NAMESPACE);
+  const transport = new MockTransport();
+  let apiQueue: ApiQueue;
+  let api: PushwooshAPI;
+
+  before(() => {
+    setTransport(transport, NAMESPACE);
+  });
+
+  beforeEach(async () => {
+    sinon.stub(Logger, 'write');
+    sinon.stub(remoteLogger, 'sendFatalLogToRemoteServer').resolves();
+    transport.reset();
+
+    await store.clear();
+    await store.set(KEY_API_PARAMS, {hwid: 'hwid', applicationCode: 'XXXXX-XXXXX', deviceType: 11});
+
+    apiQueue = new ApiQueue();
+    sinon.stub(apiQueue, 'push').resolves();
+    api = new PushwooshAPI(<TPWAPIParams><any>{}, {}, new Params(undefined, store), apiQueue);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('sends call with params of the device', async () => {
+    transport.setResponse('getTags', {result: {Language: 'en'}});
+
+    expect(await api.getTags()).to.deep.equal({result: {Language: 'en'}});
+    expect(transport.requests[0].body.request).to.include({
+      hwid: 'hwid',
+      application: 'XXXXX-XXXXX',
+      userId: 'hwid',
+      device_type: 11
+    });
+  });
+
+  it('stores retryable call failed by network', async () => {
+    transport.setNetworkError('pushStat');
+
+    const error = await api.pushStat('hash').then(() => null, (callError) => callError);
+
+    expect(error).to.include({code: 'network'});
+    expect((apiQueue.push as sinon.SinonStub).calledOnceWith('pushStat', sinon.match({hash: 'hash'}), NAMESPACE)).to.equal(true);
+  });
+});
@@ -0,0 +1,425 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Pushwoosh from '../src/Pushwoosh';
+import {Pushwoosh as PushwooshWithDefaultPlugins} from '../src/index';
+import Logger from '../src/logger';
+import platformChecker, {PlatformChecker} from '../src/modules/PlatformChecker';
+import WorkerDriver from '../src/drivers/worker';
+import {Consent} from '../src/modules/Consent/Consent';
+import {
+  EVENT_ON_READY,
+  EVENT_ON_CONSENT_CHANGE,
+  EVENT_ON_PUSH_DELIVERY,
+  EVENT_ON_PERMISSION_GRANTED,
+  EVENT_ON_USER_CHANGED,
+  EVENT_ON_SUBSCRIBE,
+  EVENT_ON_UNSUBSCRIBE,
+  EVENT_ON_UPDATE_INBOX_MESSAGES
+} from '../src/constants';
+import Params from '../src/modules/data/Params';
+import ParamsBuilder from '../src/modules/data/ParamsBuilder';
+import InboxMessagesModel from '../src/models/InboxMessages';
+import {PushwooshNetworkError, PushwooshStatusCodeError} from '../src/modules/api/PushwooshApiError';
+import {ApiQueue} from '../src/modules/ApiQueue/ApiQueue';
+import {KEY_TABS_LEADER, TABS_MESSAGE_EVENT} from '../src/modules/TabsLeader/TabsLeader.constants';
+import {KEY_SESSION} from '../src/modules/Session/Session.constants';
+import {getNamespacedKey} from '../src/functions';
+import {TKeyValue} from '../src/storage';
+import {createKeyValueMock, flushPromises} from './helpers';
+import {PushwooshInitError} from '../src/modules/PushwooshInitError';
+import {facebookPlugin} from '../src/plugins';
+import {IPushwooshPlugin} from '../src/plugins/plugins.types';
+
+
+const NAMESPACE = 'pushwoosh-test';
+
+const unsupportedPlatform = <PlatformChecker><any>{isAvailableNotifications: false, isAvailablePromise: true};
+const chromePlatform = <PlatformChecker><any>{
+  isAvailablePromise: true,
+  isAvailableNotifications: true,
+  isAvailableServiceWorker: true,
+  platform: 11,
+  browserVersion: 'Chrome'
+};
+
+function createPushwoosh(platformChecker: PlatformChecker = unsupportedPlatform): Pushwoosh {
+  return new Pushwoosh(
+    {namespace: NAMESPACE},
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    platformChecker
+  );
+}
+
+function createPlugin(name: string, isAvailableWithoutNotifications?: boolean): IPushwooshPlugin {
+  return {name, isAvailableWithoutNotifications, init: sinon.stub()};
+}
+
+describe('Pushwoosh', () => {
+  beforeEach(() => {
+    sinon.stub(Logger, 'write');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('plugins', () => {
+    it('inits only plugins available without notifications if browser does not support them', async () => {
+      const pw = createPushwoosh();
+      const widget = createPlugin('widget');
+      const facebook = createPlugin('facebook', true);
+      pw.use(widget).use(facebook);
+
+      const error = await pw.init({applicationCode: 'XXXXX-XXXXX'}).catch((error) => error);
+
+      expect(error).to.be.instanceOf(PushwooshInitError);
+      expect(error.reason).to.equal('unsupported_browser');
+      expect((<sinon.SinonStub>facebook.init).calledOnceWith(pw)).to.equal(true);
+      expect((<sinon.SinonStub>widget.init).called).to.equal(false);
+    });
+
+    it('adds plugin once', () => {
+      const pw = createPushwoosh();
+      const plugin = createPlugin('widget');
+
+      pw.use(plugin).use(createPlugin('widget'));
+
+      expect((<any>pw).plugins).to.deep.equal([plugin]);
+    });
+
+    it('adds default plugins to instances of CommonJS build before init', async () => {
+      const facebookInit = sinon.stub(facebookPlugin, 'init');
+      const pw = new PushwooshWithDefaultPlugins({namespace: NAMESPACE});
+      (<any>pw).platformChecker = unsupportedPlatform;
+
+      await pw.init({applicationCode: 'XXXXX-XXXXX'}).catch(() => undefined);
+
+      expect(facebookInit.calledOnceWith(pw)).to.equal(true);
+    });
+  });
+
+  describe('init', () => {
+    it('rejects init and whenReady without application code', async () => {
+      const pw = createPushwoosh(chromePlatform);
+
+      const error = await pw.init(<IInitParams>{}).catch((error) => error);
+      const readyError = await pw.whenReady().catch((error) => error);
+
+      expect(error).to.be.instanceOf(PushwooshInitError);
+      expect(error.reason).to.equal('missing_application_code');
+      expect(readyError).to.equal(error);
+    });
+
+    it('rejects waiting whenReady and ready by init error', async () => {
+      const pw = createPushwoosh();
+      const whenReady = pw.whenReady().catch((error) => error);
+      const ready = pw.ready().catch((error) => error);
+
+      await pw.init({applicationCode: 'XXXXX-XXXXX'}).catch(() => undefined);
+
+      expect((await whenReady).reason).to.equal('unsupported_browser');
+      expect((await ready).reason).to.equal('unsupported_browser');
+    });
+
+    it('resolves whenReady with api when SDK is ready', async () => {
+      const pw = createPushwoosh();
+      const api = {};
+      const whenReady = pw.whenReady();
+
+      (<any>pw).api = api;
+      (<any>pw)._ee.emit(EVENT_ON_READY);
+
+      expect(await whenReady).to.equal(api);
+    });
+
+    it('rejects without sender id before service worker registration', async () => {
+      sinon.stub(platformChecker, 'platform').get(() => 11);
+      const initWorker = sinon.stub(WorkerDriver.prototype, 'initWorker').resolves();
+      const pw = createPushwoosh(chromePlatform);
+
+      const error = await pw.init({applicationCode: 'XXXXX-XXXXX'}).catch((error) => error);
+
+      expect(error).to.be.instanceOf(PushwooshInitError);
+      expect(error.reason).to.equal('missing_sender_id');
+      expect(initWorker.called).to.equal(false);
+    });
+  });
+
+  describe('events', () => {
+    it('removes callback by disposer returned from push', () => {
+      const pw = createPushwoosh();
+      const callback = sinon.spy();
+
+      const dispose = pw.push([EVENT_ON_PUSH_DELIVERY, callback]);
+      (<any>pw)._ee.emit(EVENT_ON_PUSH_DELIVERY, {message: 'first'});
+      dispose!();
+      (<any>pw)._ee.emit(EVENT_ON_PUSH_DELIVERY, {message: 'second'});
+
+      expect(callback.calledOnce).to.equal(true);
+      expect(callback.firstCall.args[1]).to.deep.equal({message: 'first'});
+    });
+
+    it('removes callback by off and keeps other callbacks of the event', () => {
+      const pw = createPushwoosh();
+      const removed = sinon.spy();
+      const kept = sinon.spy();
+
+      pw.push([EVENT_ON_PUSH_DELIVERY, removed]);
+      pw.push([EVENT_ON_PUSH_DELIVERY, kept]);
+      pw.off(EVENT_ON_PUSH_DELIVERY, removed);
+      (<any>pw)._ee.emit(EVENT_ON_PUSH_DELIVERY, {});
+
+      expect(removed.called).to.equal(false);
+      expect(kept.calledOnce).to.equal(true);
+    });
+
+    it('removes callback of one-shot permission event', async () => {
+      const pw = createPushwoosh();
+      const removed = sinon.spy();
+      const kept = sinon.spy();
+
+      pw.push([EVENT_ON_PERMISSION_GRANTED, removed]);
+      pw.push([EVENT_ON_PERMISSION_GRANTED, kept]);
+      pw.off(EVENT_ON_PERMISSION_GRANTED, removed);
+      (<any>pw)._ee.emit(EVENT_ON_PERMISSION_GRANTED);
+      await flushPromises();
+
+      expect(removed.called).to.equal(false);
+      expect(kept.calledOnce).to.equal(true);
+    });
+
+    it('removes onReady callback which is not invoked yet', () => {
+      const pw = createPushwoosh();
+      const callback = sinon.spy();
+
+      const dispose = pw.push(callback);
+      dispose!();
+      (<any>pw)._ee.emit(EVENT_ON_READY);
+
+      expect(callback.called).to.equal(false);
+    });
+  });
+
+  describe('consent', () => {
+    beforeEach(() => {
+      new Consent(NAMESPACE).clear();
+    });
+
+    it('delays initialization until consent is granted', async () => {
+      const pw = createPushwoosh(chromePlatform);
+      const initServices = sinon.stub(<any>pw, 'initServices').resolves();
+      const onConsentChange = sinon.spy();
+      pw.push([EVENT_ON_CONSENT_CHANGE, onConsentChange]);
+
+      await pw.init({applicationCode: 'XXXXX-XXXXX', consentRequired: true});
+
+      expect(initServices.called).to.equal(false);
+      expect(pw.getConsent().granted).to.equal(false);
+
+      await pw.grantConsent();
+
+      expect(initServices.calledOnce).to.equal(true);
+      expect(pw.getConsent().granted).to.equal(true);
+      expect(onConsentChange.calledOnce).to.equal(true);
+      expect(onConsentChange.firstCall.args[1]).to.deep.equal(pw.getConsent());
+    });
+
+    it('inits at once if consent has been granted before', async () => {
+      new Consent(NAMESPACE).grant();
+      const pw = createPushwoosh(chromePlatform);
+      const initServices = sinon.stub(<any>pw, 'initServices').resolves();
+
+      await pw.init({applicationCode: 'XXXXX-XXXXX', consentRequired: true});
+
+      expect(initServices.calledOnce).to.equal(true);
+    });
+  });
+
+  describe('reset', () => {
+    let store: TKeyValue;
+    let apiQueue: ApiQueue;
+    let pw: Pushwoosh;
+
+    beforeEach(() => {
+      store = createKeyValueMock(NAMESPACE);
+      apiQueue = <ApiQueue><any>{clear: sinon.stub().resolves()};
+      pw = new Pushwoosh(
+        {namespace: NAMESPACE},
+        store,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        unsupportedPlatform,
+        apiQueue
+      );
+    });
+
+    it('removes api calls of own instance only', async () => {
+      await pw.reset();
+
+      expect((<sinon.SinonStub>apiQueue.clear).calledOnceWith(NAMESPACE)).to.equal(true);
+    });
+
+    it('releases tabs leadership and session of the instance', async () => {
+      const tabsLeader = (<any>pw).tabsLeader;
+      expect(await tabsLeader.elect()).to.equal(true);
+      localStorage.setItem(getNamespacedKey(KEY_SESSION, NAMESPACE), '{}');
+
+      await pw.reset();
+
+      expect(tabsLeader.isLeader).to.equal(false);
+      expect(await store.get(KEY_TABS_LEADER)).to.equal(undefined);
+      expect(localStorage.getItem(getNamespacedKey(KEY_SESSION, NAMESPACE))).to.equal(null);
+    });
+
+    it('revokes consent unless it is kept', async () => {
+      const consent = new Consent(NAMESPACE);
+      const onConsentChange = sinon.spy();
+      pw.push([EVENT_ON_CONSENT_CHANGE, onConsentChange]);
+
+      consent.grant();
+      await pw.reset({keepConsent: true});
+      expect(consent.get().granted).to.equal(true);
+
+      await pw.reset();
+      expect(consent.get().granted).to.equal(false);
+      expect(onConsentChange.calledOnce).to.equal(true);
+    });
+  });
+
+  describe('login and logout', () => {
+    let paramsModule: Params;
+    let inboxModel: InboxMessagesModel;
+    let api: {registerUser: sinon.SinonStub, resetUser: sinon.SinonStub};
+    let onUserChanged: sinon.SinonSpy;
+    let pw: Pushwoosh;
+
+    beforeEach(async () => {
+      const store = createKeyValueMock(NAMESPACE);
+      paramsModule = new Params(new ParamsBuilder(), store);
+      await paramsModule.setUserId('previous');
+
+      inboxModel = <InboxMessagesModel><any>{
+        clear: sinon.stub().resolves(),
+        updateMessages: sinon.stub().resolves()
+      };
+      // api changes user in params before the call as API does
+      api = {
+        registerUser: sinon.stub().callsFake((userId: string) => paramsModule.setUserId(userId)),
+        resetUser: sinon.stub().callsFake(() => paramsModule.setUserId(''))
+      };
+      onUserChanged = sinon.spy();
+
+      pw = new Pushwoosh({namespace: NAMESPACE}, store, paramsModule, undefined, undefined, inboxModel);
+      (<any>pw).api = api;
+      (<any>pw).params = {userId: 'previous'};
+      pw.push([EVENT_ON_USER_CHANGED, onUserChanged]);
+    });
+
+    it('registers new user and replaces inbox messages of the previous one', async () => {
+      await pw.login('next');
+
+      expect(api.registerUser.calledOnceWith('next')).to.equal(true);
+      expect(await paramsModule.userId).to.equal('next');
+      expect((<sinon.SinonStub>inboxModel.clear).calledBefore(<sinon.SinonStub>inboxModel.updateMessages)).to.equal(true);
+      expect(onUserChanged.firstCall.args[1]).to.deep.equal({userId: 'next', previousUserId: 'previous'});
+    });
+
+    it('does not change the same user', async () => {
+      await pw.login('previous');
+
+      expect(api.registerUser.called).to.equal(false);
+      expect(onUserChanged.called).to.equal(false);
+    });
+
+    it('restores previous user rejected by Pushwoosh', async () => {
+      const rejection = new PushwooshStatusCodeError('registerUser', 210);
+      api.registerUser.callsFake((userId: string) => paramsModule.setUserId(userId).then(() => Promise.reject(rejection)));
+
+      const error = await pw.login('next').catch((error) => error);
+
+      expect(error).to.equal(rejection);
+      expect(await paramsModule.userId).to.equal('previous');
+      expect((<sinon.SinonStub>inboxModel.clear).called).to.equal(false);
+      expect(onUserChanged.called).to.equal(false);
+    });
+
+    it('changes user at once if call is failed by network', async () => {
+      api.registerUser.callsFake((userId: string) => paramsModule.setUserId(userId)
+        .then(() => Promise.reject(new PushwooshNetworkError('registerUser', 'offline'))));
+
+      await pw.login('next');
+
+      expect(await paramsModule.userId).to.equal('next');
+      expect(onUserChanged.calledOnce).to.equal(true);
+    });
+
+    it('resets user to default one on logout', async () => {
+      await pw.logout();
+
+      expect(api.resetUser.calledOnce).to.equal(true);
+      expect(await paramsModule.userId).to.equal('');
+      expect((<sinon.SinonStub>inboxModel.clear).calledOnce).to.equal(true);
+      expect(onUserChanged.firstCall.args[1]).to.deep.equal({userId: '', previousUserId: 'previous'});
+    });
+  });
+
+  describe('events of other tabs', () => {
+    let pw: Pushwoosh;
+
+    beforeEach(() => {
+      pw = createPushwoosh();
+      (<any>pw).isReady = true;
+    });
+
+    it('posts event emitted in this tab to other tabs', () => {
+      const postMessage = sinon.stub((<any>pw).tabsLeader, 'postMessage');
+      const onSubscribe = sinon.spy();
+      pw.push([EVENT_ON_SUBSCRIBE, onSubscribe]);
+
+      (<any>pw).emitInAllTabs(EVENT_ON_SUBSCRIBE, {subscribed: true});
+
+      expect(onSubscribe.calledOnce).to.equal(true);
+      expect(postMessage.calledOnceWith({
+        type: TABS_MESSAGE_EVENT,
+        payload: {event: EVENT_ON_SUBSCRIBE, payload: {subscribed: true}}
+      })).to.equal(true);
+    });
+
+    it('re-emits shared events of other tabs', () => {
+      const onUnsubscribe = sinon.spy();
+      const onUpdateInboxMessages = sinon.spy();
+      pw.push([EVENT_ON_UNSUBSCRIBE, onUnsubscribe]);
+      pw.push([<any>EVENT_ON_UPDATE_INBOX_MESSAGES, onUpdateInboxMessages]);
+
+      (<any>pw).onTabsMessage({type: TABS_MESSAGE_EVENT, payload: {event: EVENT_ON_UNSUBSCRIBE}});
+      (<any>pw).onTabsMessage({type: TABS_MESSAGE_EVENT, payload: {event: EVENT_ON_UPDATE_INBOX_MESSAGES}});
+
+      expect(onUnsubscribe.calledOnce).to.equal(true);
+      // inbox interface of this tab is passed
+      expect(onUpdateInboxMessages.firstCall.args[1]).to.equal(pw.pwinbox);
+    });
+
+    it('ignores not shared events and events before SDK is ready', () => {
+      const onPushDelivery = sinon.spy();
+      const onSubscribe = sinon.spy();
+      pw.push([EVENT_ON_PUSH_DELIVERY, onPushDelivery]);
+      pw.push([EVENT_ON_SUBSCRIBE, onSubscribe]);
+
+      (<any>pw).onTabsMessage({type: TABS_MESSAGE_EVENT, payload: {event: EVENT_ON_PUSH_DELIVERY}});
+      (<any>pw).isReady = false;
+      (<any>pw).onTabsMessage({type: TABS_MESSAGE_EVENT, payload: {event: EVENT_ON_SUBSCRIBE}});
+
+      expect(onPushDelivery.called).to.equal(false);
+      expect(onSubscribe.called).to.equal(false);
+    });
+  });
+});
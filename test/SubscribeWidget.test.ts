@@ -0,0 +1,70 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Pushwoosh from '../src/Pushwoosh';
+import SubscribeWidget from '../src/SubscribeWidget';
+import {WIDGET_CONTAINER_ID} from '../src/SubscribeWidget/constants';
+import platformChecker from '../src/modules/PlatformChecker';
+import {EVENT_ON_UNSUBSCRIBE} from '../src/constants';
+import {flushPromises} from './helpers';
+
+
+describe('SubscribeWidget', () => {
+  let listeners: {[event: string]: Function};
+  let pw: Pushwoosh;
+
+  const getWidget = () => document.getElementById(WIDGET_CONTAINER_ID);
+
+  beforeEach(() => {
+    sinon.stub(platformChecker, 'isAvailableNotifications').get(() => true);
+
+    listeners = {};
+    pw = <Pushwoosh><any>{
+      subscribeWidgetConfig: {enable: true},
+      isSubscribed: sinon.stub().resolves(true),
+      push: ([event, listener]: [string, Function]) => {
+        listeners[event] = listener;
+      },
+      driver: {getPermission: sinon.stub().resolves('granted')},
+      store: {get: sinon.stub().resolves(false)},
+      api: null
+    };
+  });
+
+  afterEach(() => {
+    const widget = getWidget();
+    if (widget) {
+      document.body.removeChild(widget);
+    }
+
+    sinon.restore();
+  });
+
+  it('is not shown for subscribed device', async () => {
+    new SubscribeWidget(pw);
+    await flushPromises();
+
+    expect(getWidget()).to.equal(null);
+  });
+
+  it('is shown when device is unsubscribed', async () => {
+    new SubscribeWidget(pw);
+    await flushPromises();
+
+    await listeners[EVENT_ON_UNSUBSCRIBE]();
+
+    expect(getWidget()).not.to.equal(null);
+  });
+
+  it('is shown again after subscription', async () => {
+    new SubscribeWidget(pw);
+    await flushPromises();
+    await listeners[EVENT_ON_UNSUBSCRIBE]();
+    getWidget()!.classList.add('pushwoosh-subscribe-widget__subscribed');
+
+    await listeners[EVENT_ON_UNSUBSCRIBE]();
+
+    expect(getWidget()!.classList.contains('pushwoosh-subscribe-widget__subscribed')).to.equal(false);
+    expect(document.querySelectorAll(`#${WIDGET_CONTAINER_ID}`)).to.have.length(1);
+  });
+});
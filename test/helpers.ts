@@ -0,0 +1,50 @@
+import {TKeyValue} from '../src/storage';
+
+
+/**
+ * Copy of stored value like IndexedDB returns by structured clone
+ * @param value
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * In-memory key value store with the interface of IndexedDB one.
+ * It doesn't poll by setTimeout, so it works with fake timers.
+ * @param namespace
+ */
+export function createKeyValueMock(namespace: string = ''): TKeyValue {
+  let values: {[key: string]: any} = {};
+
+  const store = {
+    namespace,
+    get: (key: string, defaultValue?: any) => Promise.resolve(clone(values[key]) || defaultValue),
+    getAll: () => Promise.resolve(clone(values)),
+    set: (key: string, value: any) => {
+      values[key] = clone(value);
+      return Promise.resolve();
+    },
+    extend: (key: string, value: any) => {
+      values[key] = {...values[key], ...clone(value)};
+      return Promise.resolve();
+    },
+    update: (key: string, updater: (value: any) => any) => {
+      values[key] = clone(updater(clone(values[key])));
+      return Promise.resolve(clone(values[key]));
+    },
+    clear: () => {
+      values = {};
+      return Promise.resolve();
+    }
+  };
+
+  return <TKeyValue><any>store;
+}
+
+/**
+ * Resolves when pending promise callbacks are called
+ */
+export function flushPromises(): Promise<void> {
+  return new Promise<void>((resolve) => setImmediate(resolve));
+}
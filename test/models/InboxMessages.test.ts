@@ -0,0 +1,64 @@
+import {expect} from 'chai';
+
+import Storage from '../../src/modules/storage/Storage';
+import Params from '../../src/modules/data/Params';
+import InboxParams from '../../src/modules/data/InboxParams';
+import ParamsBuilder from '../../src/modules/data/ParamsBuilder';
+import {getKeyValue} from '../../src/storage';
+import InboxMessages from '../../src/models/InboxMessages';
+
+
+function createInboxMessages(namespace: string): InboxMessages {
+  const store = getKeyValue(namespace);
+  return new InboxMessages(new Storage(), new Params(new ParamsBuilder(), store), new InboxParams(store));
+}
+
+function createMessage(inboxId: string): IInboxMessage {
+  return {
+    inbox_id: inboxId,
+    order: inboxId,
+    rt: '4102444800',
+    send_date: '1600000000',
+    title: 'title',
+    image: '',
+    text: 'text',
+    action_type: 'URL',
+    action_params: '{}',
+    status: 1
+  };
+}
+
+describe('InboxMessages', () => {
+  const first = createInboxMessages('inbox-test-first');
+  const second = createInboxMessages('inbox-test-second');
+
+  beforeEach(async () => {
+    await first.clear();
+    await second.clear();
+  });
+
+  it('returns only messages of own instance', async () => {
+    await first.putMessage(createMessage('inbox-test-1'));
+    await second.putMessage(createMessage('inbox-test-2'));
+
+    const firstMessages = await first.getMessages();
+    const secondMessages = await second.getMessages();
+
+    expect(firstMessages.map((message) => message.inbox_id)).to.deep.equal(['inbox-test-1']);
+    expect(secondMessages.map((message) => message.inbox_id)).to.deep.equal(['inbox-test-2']);
+  });
+
+  it('clears messages and request params of own instance only', async () => {
+    await first.putMessage(createMessage('inbox-test-1'));
+    await second.putMessage(createMessage('inbox-test-2'));
+    await first.inboxParams.setLastRequestCode('next');
+    await second.inboxParams.setLastRequestCode('next');
+
+    await first.clear();
+
+    expect(await first.getMessages()).to.be.empty;
+    expect(await first.inboxParams.lastRequestCode).to.equal('');
+    expect(await second.getMessages()).to.have.length(1);
+    expect(await second.inboxParams.lastRequestCode).to.equal('next');
+  });
+});
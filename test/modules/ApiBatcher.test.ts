@@ -0,0 +1,162 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Params from '../../src/modules/data/Params';
+import MockTransport from '../../src/modules/api/transports/MockTransport';
+import {setTransport} from '../../src/modules/api/apiCall';
+import {ApiInterceptors} from '../../src/modules/api/ApiInterceptors';
+import {ApiBatcher} from '../../src/modules/ApiBatcher/ApiBatcher';
+import {IApiBatcherEvent} from '../../src/modules/ApiBatcher/ApiBatcher.types';
+
+import {flushPromises} from '../helpers';
+
+
+const API_URL = 'https://cp.pushwoosh.com/json/1.3/';
+const NAMESPACE = 'api-batcher-test';
+const DELAY = 1000;
+
+function createEvent(event: string): IApiBatcherEvent {
+  return {
+    event,
+    attributes: {},
+    timestampUTC: 0,
+    timestampCurrent: 0
+  };
+}
+
+describe('ApiBatcher', () => {
+  const paramsModule = <Params><any>{apiUrl: Promise.resolve(API_URL), store: {namespace: ''}};
+  let clock: sinon.SinonFakeTimers;
+  let api: {callAPI: sinon.SinonStub, getRequestParams: sinon.SinonStub};
+  let batcher: ApiBatcher;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({toFake: ['setTimeout', 'clearTimeout']});
+    api = {
+      callAPI: sinon.stub().resolves({}),
+      getRequestParams: sinon.stub().resolves({application: 'XXXXX-XXXXX', hwid: 'hwid'})
+    };
+    batcher = new ApiBatcher(api, {delay: DELAY, maxSize: 3}, paramsModule);
+  });
+
+  afterEach(() => {
+    batcher.destroy();
+    delete (navigator as any).sendBeacon;
+    sinon.restore();
+  });
+
+  it('merges tags of the window into one setTags call', async () => {
+    api.callAPI.resolves({skipped: []});
+    const first = batcher.setTags({a: 1, b: 1});
+    const second = batcher.setTags({a: 2});
+
+    clock.tick(DELAY - 1);
+    expect(api.callAPI.called).to.equal(false);
+
+    clock.tick(1);
+    expect(await Promise.all([first, second])).to.deep.equal([{skipped: []}, {skipped: []}]);
+    expect(api.callAPI.calledOnceWith('setTags', {tags: {a: 2, b: 1}})).to.equal(true);
+  });
+
+  it('sends events of the window by separate postEvent calls', async () => {
+    const events = [createEvent('first'), createEvent('second')];
+    const promises = events.map((event) => batcher.postEvent(event));
+
+    clock.tick(DELAY);
+    await Promise.all(promises);
+
+    expect(api.callAPI.args).to.deep.equal(events.map((event) => ['postEvent', event]));
+  });
+
+  it('sends events immediately when batch is full', async () => {
+    const promises = ['first', 'second', 'third'].map((event) => batcher.postEvent(createEvent(event)));
+    await Promise.all(promises);
+
+    expect(api.callAPI.callCount).to.equal(3);
+  });
+
+  it('rejects calls of the failed batch', async () => {
+    const error = new Error('offline');
+    api.callAPI.rejects(error);
+    const promise = batcher.setTags({a: 1});
+
+    clock.tick(DELAY);
+
+    expect(await promise.catch((callError) => callError)).to.equal(error);
+  });
+
+  it('sends not sent calls by beacon on pagehide', async () => {
+    const sendBeacon = sinon.stub().returns(true);
+    (navigator as any).sendBeacon = sendBeacon;
+    const tagsPromise = batcher.setTags({a: 1});
+    const eventPromise = batcher.postEvent(createEvent('test'));
+    await flushPromises();
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(await Promise.all([tagsPromise, eventPromise])).to.deep.equal([undefined, undefined]);
+    expect(api.callAPI.called).to.equal(false);
+    expect(sendBeacon.firstCall.args).to.deep.equal([
+      `${API_URL}setTags`,
+      JSON.stringify({request: {tags: {a: 1}, application: 'XXXXX-XXXXX', hwid: 'hwid'}})
+    ]);
+    expect(sendBeacon.secondCall.args[0]).to.equal(`${API_URL}postEvent`);
+  });
+
+  it('sends calls by api on pagehide if beacon is not queued', async () => {
+    (navigator as any).sendBeacon = sinon.stub().returns(false);
+    const promise = batcher.setTags({a: 1});
+    await flushPromises();
+
+    window.dispatchEvent(new Event('pagehide'));
+    await promise;
+
+    expect(api.callAPI.calledOnceWith('setTags', {tags: {a: 1}})).to.equal(true);
+  });
+
+  it('sends calls by api on pagehide if instance has api interceptor', async () => {
+    const sendBeacon = sinon.stub().returns(true);
+    (navigator as any).sendBeacon = sendBeacon;
+    const interceptor = (context: IApiInterceptorContext, next: () => Promise<void>) => next();
+    ApiInterceptors.getInstance(NAMESPACE).add(interceptor);
+
+    batcher.destroy();
+    batcher = new ApiBatcher(api, {delay: DELAY}, <Params><any>{...paramsModule, store: {namespace: NAMESPACE}});
+    const promise = batcher.postEvent(createEvent('test'));
+    await flushPromises();
+
+    window.dispatchEvent(new Event('pagehide'));
+    await promise;
+    ApiInterceptors.getInstance(NAMESPACE).remove(interceptor);
+
+    expect(sendBeacon.called).to.equal(false);
+    expect(api.callAPI.calledOnceWith('postEvent')).to.equal(true);
+  });
+
+  it('sends calls by api on pagehide if instance has custom transport', async () => {
+    const sendBeacon = sinon.stub().returns(true);
+    (navigator as any).sendBeacon = sendBeacon;
+    setTransport(new MockTransport(), NAMESPACE);
+
+    batcher.destroy();
+    batcher = new ApiBatcher(api, {delay: DELAY}, <Params><any>{...paramsModule, store: {namespace: NAMESPACE}});
+    const promise = batcher.setTags({a: 1});
+    await flushPromises();
+
+    window.dispatchEvent(new Event('pagehide'));
+    await promise;
+
+    expect(sendBeacon.called).to.equal(false);
+    expect(api.callAPI.calledOnceWith('setTags', {tags: {a: 1}})).to.equal(true);
+  });
+
+  it('rejects not sent calls on destroy', async () => {
+    const promise = batcher.setTags({a: 1});
+
+    batcher.destroy();
+    clock.tick(DELAY);
+
+    expect(await promise.catch((error) => error.message)).to.equal('Batching is stopped');
+    expect(api.callAPI.called).to.equal(false);
+  });
+});
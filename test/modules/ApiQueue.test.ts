@@ -0,0 +1,162 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Storage from '../../src/modules/storage/Storage';
+import Logger from '../../src/logger';
+import {getKeyValue} from '../../src/storage';
+import {KEY_DEVICE_DATA_REMOVED} from '../../src/constants';
+import {STORE_NAME_API_QUEUE} from '../../src/modules/storage/migrations/constants';
+import {PushwooshNetworkError, PushwooshStatusCodeError} from '../../src/modules/api/PushwooshApiError';
+import {ApiQueue} from '../../src/modules/ApiQueue/ApiQueue';
+import {API_QUEUE_MAX_ATTEMPTS, API_QUEUE_RETRY_BASE_DELAY} from '../../src/modules/ApiQueue/ApiQueue.constants';
+import {IApiQueueItem} from '../../src/modules/ApiQueue/ApiQueue.types';
+
+
+const NAMESPACE = 'api-queue-test';
+
+describe('ApiQueue', () => {
+  const storage = new Storage();
+  const store = getKeyValue(NAMESPACE);
+  let doApiMethod: sinon.SinonStub;
+  let queue: ApiQueue;
+
+  const getItems = () => storage.getAll<IApiQueueItem>(STORE_NAME_API_QUEUE);
+
+  beforeEach(async () => {
+    sinon.stub(Logger, 'write');
+    doApiMethod = sinon.stub().resolves();
+    queue = new ApiQueue(storage, doApiMethod);
+
+    // flushes are called by tests, not by timer
+    sinon.stub(queue as any, 'scheduleFlush').resolves();
+
+    await queue.clear();
+    await store.clear();
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('retries only methods of the list', () => {
+    expect(queue.isRetryable('pushStat')).to.equal(true);
+    expect(queue.isRetryable('getTags')).to.equal(false);
+  });
+
+  it('stores failed call with backoff delay', async () => {
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+
+    const [item] = await getItems();
+    expect(item).to.include({methodName: 'setTags', namespace: NAMESPACE, attempts: 1, lockedUntil: 0});
+    expect(item.request).to.deep.equal({tags: {a: 1}});
+    expect(item.nextAttemptAt - item.createdAt).to.equal(API_QUEUE_RETRY_BASE_DELAY);
+  });
+
+  it('does not send call before backoff delay', async () => {
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+    await queue.flush();
+
+    expect(doApiMethod.called).to.equal(false);
+    expect(await queue.count()).to.equal(1);
+  });
+
+  it('sends calls in order by params of their instance', async () => {
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+    await queue.push('postEvent', {event: 'test'}, NAMESPACE);
+    await queue.flush(true);
+
+    expect(doApiMethod.args.map(([methodName]) => methodName)).to.deep.equal(['setTags', 'postEvent']);
+    expect(doApiMethod.firstCall.args[2].store.namespace).to.equal(NAMESPACE);
+    expect(await queue.count()).to.equal(0);
+  });
+
+  it('postpones call failed by network and keeps the next calls', async () => {
+    doApiMethod.onFirstCall().rejects(new PushwooshNetworkError('setTags', 'offline'));
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+    await queue.push('postEvent', {event: 'test'}, NAMESPACE);
+    await queue.flush(true);
+
+    expect(doApiMethod.calledOnce).to.equal(true);
+
+    const [first, second] = await getItems();
+    expect(first).to.include({methodName: 'setTags', attempts: 2, lockedUntil: 0});
+    expect(first.nextAttemptAt).to.be.above(Date.now() + API_QUEUE_RETRY_BASE_DELAY);
+    expect(second).to.include({methodName: 'postEvent', attempts: 1});
+  });
+
+  it('drops call with permanent error and sends the next calls', async () => {
+    doApiMethod.onFirstCall().rejects(new PushwooshStatusCodeError('setTags', 210, 'Invalid arguments'));
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+    await queue.push('postEvent', {event: 'test'}, NAMESPACE);
+    await queue.flush(true);
+
+    expect(doApiMethod.calledTwice).to.equal(true);
+    expect(await queue.count()).to.equal(0);
+  });
+
+  it('drops call when attempts are exhausted', async () => {
+    doApiMethod.rejects(new PushwooshNetworkError('setTags', 'offline'));
+    await storage.put(STORE_NAME_API_QUEUE, {
+      methodName: 'setTags',
+      namespace: NAMESPACE,
+      request: {tags: {a: 1}},
+      attempts: API_QUEUE_MAX_ATTEMPTS,
+      createdAt: 0,
+      nextAttemptAt: 0,
+      lockedUntil: 0
+    });
+    await queue.flush();
+
+    expect(doApiMethod.calledOnce).to.equal(true);
+    expect(await queue.count()).to.equal(0);
+  });
+
+  it('does not send call locked by other tab', async () => {
+    await storage.put(STORE_NAME_API_QUEUE, {
+      methodName: 'setTags',
+      namespace: NAMESPACE,
+      request: {tags: {a: 1}},
+      attempts: 1,
+      createdAt: 0,
+      nextAttemptAt: 0,
+      lockedUntil: Date.now() + 10000
+    });
+    await queue.flush(true);
+
+    expect(doApiMethod.called).to.equal(false);
+    expect(await queue.count()).to.equal(1);
+  });
+
+  it('drops calls of the device with removed data', async () => {
+    await store.set(KEY_DEVICE_DATA_REMOVED, 1);
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+    await queue.flush(true);
+
+    expect(doApiMethod.called).to.equal(false);
+    expect(await queue.count()).to.equal(0);
+  });
+
+  it('clears calls of one instance', async () => {
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+    await queue.push('setTags', {tags: {a: 2}}, '');
+    await queue.push('setTags', {tags: {a: 3}}, `${NAMESPACE}-other`);
+
+    await queue.clear('');
+    expect((await getItems()).map((item) => item.namespace)).to.deep.equal([NAMESPACE, `${NAMESPACE}-other`]);
+
+    await queue.clear(NAMESPACE);
+    expect((await getItems()).map((item) => item.namespace)).to.deep.equal([`${NAMESPACE}-other`]);
+  });
+
+  it('fails background sync only while statistics are not sent', async () => {
+    doApiMethod.rejects(new PushwooshNetworkError('setTags', 'offline'));
+    await queue.push('setTags', {tags: {a: 1}}, NAMESPACE);
+    await queue.sync();
+
+    await queue.push('pushStat', {hash: 'XXX'}, NAMESPACE);
+    const error = await queue.sync().then(() => null, (syncError) => syncError);
+
+    expect(error).to.be.an('error');
+    expect(await queue.statisticsCount()).to.equal(1);
+  });
+});
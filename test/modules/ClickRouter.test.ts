@@ -0,0 +1,100 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {ClickRouter} from '../../src/modules/ClickRouter/ClickRouter';
+
+
+const ORIGIN = 'https://example.com';
+
+function createClient(url: string, focused: boolean = false) {
+  return <TServiceWorkerClientExtended><any>{
+    url,
+    focused,
+    focus: sinon.stub().resolves(),
+    navigate: sinon.stub().resolves()
+  };
+}
+
+describe('ClickRouter', () => {
+  let home: TServiceWorkerClientExtended;
+  let shop: TServiceWorkerClientExtended;
+  let clients: Array<TServiceWorkerClientExtended>;
+
+  beforeEach(() => {
+    home = createClient(`${ORIGIN}/`, true);
+    shop = createClient(`${ORIGIN}/shop/cart`);
+    clients = [home, shop];
+  });
+
+  describe('exact mode', () => {
+    const router = new ClickRouter();
+
+    it('focuses window with the same url', async () => {
+      expect(await router.route([shop], `${ORIGIN}/shop/cart`)).to.equal(true);
+      expect((shop.focus as sinon.SinonStub).calledOnce).to.equal(true);
+    });
+
+    it('asks to open new window for other url', async () => {
+      expect(await router.route(clients, `${ORIGIN}/news`)).to.equal(false);
+      expect((home.navigate as sinon.SinonStub).called).to.equal(false);
+    });
+  });
+
+  describe('focusAny mode', () => {
+    const router = new ClickRouter({mode: 'focusAny'});
+
+    it('navigates focused window', async () => {
+      expect(await router.route(clients, `${ORIGIN}/news`)).to.equal(true);
+      expect((home.focus as sinon.SinonStub).calledOnce).to.equal(true);
+      expect((home.navigate as sinon.SinonStub).calledOnceWith(`${ORIGIN}/news`)).to.equal(true);
+    });
+
+    it('does not navigate window with the same url', async () => {
+      expect(await router.route(clients, '/')).to.equal(true);
+      expect((home.navigate as sinon.SinonStub).called).to.equal(false);
+    });
+
+    it('asks to open new window if there are no windows', async () => {
+      expect(await router.route([], `${ORIGIN}/news`)).to.equal(false);
+    });
+  });
+
+  describe('prefix mode', () => {
+    const router = new ClickRouter({mode: 'prefix', pattern: '/shop'});
+
+    it('navigates window which url starts with pattern', async () => {
+      expect(await router.route(clients, `${ORIGIN}/shop/item`)).to.equal(true);
+      expect((shop.navigate as sinon.SinonStub).calledOnceWith(`${ORIGIN}/shop/item`)).to.equal(true);
+      expect((home.focus as sinon.SinonStub).called).to.equal(false);
+    });
+
+    it('asks to open new window if no url matches', async () => {
+      expect(await router.route([home], `${ORIGIN}/shop/item`)).to.equal(false);
+    });
+  });
+
+  describe('regex mode', () => {
+    it('navigates window which url matches pattern', async () => {
+      const router = new ClickRouter({mode: 'regex', pattern: '/shop/\\w+$'});
+
+      expect(await router.route(clients, `${ORIGIN}/shop/item`)).to.equal(true);
+      expect((shop.navigate as sinon.SinonStub).calledOnce).to.equal(true);
+    });
+
+    it('matches no window by invalid pattern', async () => {
+      const router = new ClickRouter({mode: 'regex', pattern: '('});
+
+      expect(await router.route(clients, `${ORIGIN}/shop/item`)).to.equal(false);
+    });
+  });
+
+  describe('postMessage mode', () => {
+    it('focuses window without navigation', async () => {
+      const router = new ClickRouter({mode: 'postMessage'});
+
+      expect(await router.route(clients, `${ORIGIN}/news`)).to.equal(true);
+      expect((home.focus as sinon.SinonStub).calledOnce).to.equal(true);
+      expect((home.navigate as sinon.SinonStub).called).to.equal(false);
+    });
+  });
+});
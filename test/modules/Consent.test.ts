@@ -0,0 +1,44 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {Consent} from '../../src/modules/Consent/Consent';
+
+
+describe('Consent', () => {
+  const consent = new Consent('consent-test');
+
+  beforeEach(() => {
+    consent.clear();
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('is not granted by default', () => {
+    expect(consent.get()).to.deep.equal({granted: false, timestamp: null});
+  });
+
+  it('stores granted state with timestamp', () => {
+    sinon.useFakeTimers({now: 1600000000000, toFake: ['Date']});
+
+    const state = consent.grant();
+
+    expect(state).to.deep.equal({granted: true, timestamp: 1600000000000});
+    expect(new Consent('consent-test').get()).to.deep.equal(state);
+  });
+
+  it('keeps consent of instances apart', () => {
+    consent.grant();
+
+    expect(new Consent('consent-test-other').get().granted).to.equal(false);
+  });
+
+  it('revokes consent by clear', () => {
+    consent.grant();
+
+    consent.clear();
+
+    expect(consent.get().granted).to.equal(false);
+  });
+});
@@ -0,0 +1,63 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Logger from '../../src/logger';
+import InboxMessagesModel from '../../src/models/InboxMessages';
+import {log as logStorage, message as messageStorage} from '../../src/storage';
+import {KEY_API_PARAMS} from '../../src/constants';
+import {DeviceDataExport} from '../../src/modules/DeviceDataExport/DeviceDataExport';
+import {DEVICE_DATA_EXPORT_REDACTED} from '../../src/modules/DeviceDataExport/DeviceDataExport.constants';
+import {createKeyValueMock} from '../helpers';
+
+
+describe('DeviceDataExport', () => {
+  const inboxMessage = {inbox_id: 'inbox-1', title: 'title'};
+  let deviceDataExport: DeviceDataExport;
+
+  beforeEach(async () => {
+    sinon.stub(Logger, 'write');
+    sinon.stub(messageStorage, 'getAll').resolves([{messageHash: 'hash', pushToken: 'token'}]);
+    sinon.stub(logStorage, 'getAll').resolves([{message: 'request {"hwid":"hwid","push_token":"token"}'}]);
+
+    const store = createKeyValueMock();
+    await store.set(KEY_API_PARAMS, {hwid: 'hwid', pushToken: 'token', authToken: 'auth', fcmPushSet: ''});
+    const inboxMessages = <InboxMessagesModel><any>{getMessages: sinon.stub().resolves([inboxMessage])};
+
+    deviceDataExport = new DeviceDataExport(store, inboxMessages);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('collects stored data and tags of the device', async () => {
+    const data = await deviceDataExport.collect(() => Promise.resolve({Language: 'en'}));
+
+    expect(data.keyValue[KEY_API_PARAMS].hwid).to.equal('hwid');
+    expect(data.inboxMessages).to.deep.equal([inboxMessage]);
+    expect(data.messages).to.have.length(1);
+    expect(data.log).to.have.length(1);
+    expect(data.tags).to.deep.equal({Language: 'en'});
+    expect(JSON.parse(JSON.stringify(data))).to.deep.equal(data);
+  });
+
+  it('redacts push subscription credentials', async () => {
+    const data = await deviceDataExport.collect(() => Promise.resolve({}));
+
+    expect(data.keyValue[KEY_API_PARAMS]).to.deep.equal({
+      hwid: 'hwid',
+      pushToken: DEVICE_DATA_EXPORT_REDACTED,
+      authToken: DEVICE_DATA_EXPORT_REDACTED,
+      fcmPushSet: ''
+    });
+    expect(data.messages[0].pushToken).to.equal(DEVICE_DATA_EXPORT_REDACTED);
+    expect(data.log[0].message).to.equal(`request {"hwid":"hwid","push_token":"${DEVICE_DATA_EXPORT_REDACTED}"}`);
+  });
+
+  it('exports local data if tags can not be loaded', async () => {
+    const data = await deviceDataExport.collect(() => Promise.reject(new Error('network')));
+
+    expect(data.tags).to.equal(null);
+    expect(data.inboxMessages).to.deep.equal([inboxMessage]);
+  });
+});
@@ -0,0 +1,70 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {EventsValidator} from '../../src/modules/EventsValidator/EventsValidator';
+import {PushwooshEventError} from '../../src/modules/EventsValidator/PushwooshEventError';
+
+
+describe('EventsValidator', () => {
+  const schema: IEventsSchema = {
+    Purchase: {
+      attributes: {
+        product: {type: 'string', required: true},
+        price: {type: 'price'},
+        quantity: {type: 'integer'}
+      }
+    },
+    Login: {}
+  };
+
+  const validator = new EventsValidator(schema, 'reject');
+
+  const getError = (event: string, attributes?: {[name: string]: any}): PushwooshEventError | null => {
+    try {
+      validator.check(event, attributes);
+      return null;
+    } catch (error) {
+      return error;
+    }
+  };
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('passes event matching schema', () => {
+    expect(getError('Purchase', {product: 'Book', price: 9.99, quantity: 2})).to.equal(null);
+    expect(getError('Login')).to.equal(null);
+  });
+
+  it('passes goal attribution attribute', () => {
+    expect(getError('Login', {msgHash: 'XXX'})).to.equal(null);
+  });
+
+  it('rejects unknown event', () => {
+    const error = getError('Logout');
+
+    expect(error).to.be.instanceOf(PushwooshEventError);
+    expect(error && error.problems).to.deep.equal(['event is not found in schema']);
+  });
+
+  it('collects all problems of attributes', () => {
+    const error = getError('Purchase', {price: '9.99', quantity: 1.5, color: 'red'});
+
+    expect(error && error.event).to.equal('Purchase');
+    expect(error && error.problems).to.deep.equal([
+      'attribute "product" is required',
+      'attribute "price" is not price',
+      'attribute "quantity" is not integer',
+      'attribute "color" is not found in schema'
+    ]);
+  });
+
+  it('only warns in warn mode', () => {
+    const warn = sinon.stub(console, 'warn');
+
+    new EventsValidator(schema).check('Logout');
+
+    expect(warn.calledOnce).to.equal(true);
+  });
+});
@@ -0,0 +1,84 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {GoalAttribution} from '../../src/modules/GoalAttribution/GoalAttribution';
+import {
+  KEY_OPENED_MESSAGES,
+  KEY_LAST_OPEN_MESSAGE,
+  GOAL_ATTRIBUTION_HISTORY_SIZE
+} from '../../src/modules/GoalAttribution/GoalAttribution.constants';
+import {PERIOD_GOAL_EVENT} from '../../src/constants';
+import {TKeyValue} from '../../src/storage';
+
+import {createKeyValueMock} from '../helpers';
+
+
+const HOUR = 3600000;
+
+describe('GoalAttribution', () => {
+  let clock: sinon.SinonFakeTimers;
+  let store: TKeyValue;
+
+  beforeEach(async () => {
+    clock = sinon.useFakeTimers({now: 100 * HOUR, toFake: ['Date']});
+    store = createKeyValueMock();
+
+    // inbox message is opened an hour after push one
+    const goalAttribution = new GoalAttribution(store);
+    await goalAttribution.addOpen('push-hash', 'push');
+    clock.tick(HOUR);
+    await goalAttribution.addOpen('inbox-hash', 'inbox');
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('attributes event to the last opened message by default', async () => {
+    expect(await new GoalAttribution(store).getMessageHash()).to.equal('inbox-hash');
+  });
+
+  it('attributes event to the first opened message in first touch model', async () => {
+    expect(await new GoalAttribution(store, {model: 'first_touch'}).getMessageHash()).to.equal('push-hash');
+  });
+
+  it('takes into account opens of the window only', async () => {
+    clock.tick(HOUR / 2);
+
+    expect(await new GoalAttribution(store, {window: HOUR, model: 'first_touch'}).getMessageHash()).to.equal('inbox-hash');
+    expect(await new GoalAttribution(store, {window: HOUR / 4}).getMessageHash()).to.equal(undefined);
+  });
+
+  it('takes into account opens of the sources only', async () => {
+    expect(await new GoalAttribution(store, {sources: ['push']}).getMessageHash()).to.equal('push-hash');
+  });
+
+  it('attributes event to clicked in-app', async () => {
+    await new GoalAttribution(store).addOpen('inapp-code', 'inapp');
+
+    expect(await new GoalAttribution(store).getMessageHash()).to.equal('inapp-code');
+    expect(await new GoalAttribution(store, {sources: ['push', 'inbox']}).getMessageHash()).to.equal('inbox-hash');
+  });
+
+  it('keeps limited history', async () => {
+    const goalAttribution = new GoalAttribution(store);
+    for (let index = 0; index < GOAL_ATTRIBUTION_HISTORY_SIZE; ++index) {
+      await goalAttribution.addOpen(`hash-${index}`, 'push');
+    }
+
+    const history = await store.get(KEY_OPENED_MESSAGES);
+    expect(history).to.have.lengthOf(GOAL_ATTRIBUTION_HISTORY_SIZE);
+    expect(history[0].messageHash).to.equal('hash-0');
+  });
+
+  it('migrates open stored by previous SDK version', async () => {
+    await store.clear();
+    await store.set(KEY_LAST_OPEN_MESSAGE, {url: '', messageHash: 'old-hash', expiry: Date.now() + PERIOD_GOAL_EVENT - HOUR});
+
+    expect(await new GoalAttribution(store).getMessageHash()).to.equal('old-hash');
+    expect(await store.get(KEY_OPENED_MESSAGES)).to.deep.equal([
+      {messageHash: 'old-hash', source: 'push', openedAt: Date.now() - HOUR}
+    ]);
+    expect(await store.get(KEY_LAST_OPEN_MESSAGE)).to.equal(undefined);
+  });
+});
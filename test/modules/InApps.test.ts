@@ -0,0 +1,50 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import API from '../../src/API';
+import ApiClient from '../../src/modules/api/ApiClient';
+import {InApps} from '../../src/modules/InApps/InApps';
+import {GoalAttribution} from '../../src/modules/GoalAttribution/GoalAttribution';
+
+import {createKeyValueMock} from '../helpers';
+
+
+describe('InApps', () => {
+  let goalAttribution: GoalAttribution;
+  let inApps: InApps;
+
+  const postFromInApp = (method: string, options?: any) => (<any>inApps).onReceiveNewMessageFromIFrame({
+    name: 'InAppPushwoosh',
+    method,
+    options
+  });
+
+  beforeEach(() => {
+    // list of in-apps is not loaded by tests
+    sinon.stub(<any>InApps.prototype, 'init').resolves();
+    sinon.stub(window, 'open');
+
+    const store = createKeyValueMock();
+    goalAttribution = new GoalAttribution(store);
+    sinon.stub(goalAttribution, 'addOpen').resolves();
+
+    inApps = new InApps({}, <API><any>{}, <ApiClient><any>{}, store, goalAttribution);
+    (<any>inApps).shownInAppCode = 'inapp-code';
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('records link click in the shown in-app for goal attribution', () => {
+    postFromInApp('openNewLink', {href: 'https://example.com/sale'});
+
+    expect((<sinon.SinonStub>goalAttribution.addOpen).calledOnceWith('inapp-code', 'inapp')).to.equal(true);
+  });
+
+  it('does not record closing of in-app', () => {
+    postFromInApp('closeInApp');
+
+    expect((<sinon.SinonStub>goalAttribution.addOpen).called).to.equal(false);
+  });
+});
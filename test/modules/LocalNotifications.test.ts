@@ -0,0 +1,79 @@
+import {expect} from 'chai';
+
+import {LocalNotifications} from '../../src/modules/LocalNotifications/LocalNotifications';
+import {
+  LOCAL_NOTIFICATIONS_DEFAULT_TTL,
+  LOCAL_NOTIFICATION_INBOX_PREFIX
+} from '../../src/modules/LocalNotifications/LocalNotifications.constants';
+
+import {createKeyValueMock} from '../helpers';
+
+
+const APPLICATION_CODE = 'XXXXX-XXXXX';
+const HOUR = 3600000;
+
+describe('LocalNotifications', () => {
+  const now = Date.now();
+  let localNotifications: LocalNotifications;
+
+  beforeEach(() => {
+    localNotifications = new LocalNotifications(createKeyValueMock());
+  });
+
+  it('stores notification as push payload of the application', async () => {
+    const id = await localNotifications.schedule({
+      title: 'Title',
+      body: 'Body',
+      url: 'https://example.com/',
+      at: new Date(now),
+      customData: {a: 1},
+      inbox: true
+    }, APPLICATION_CODE);
+
+    const [notification] = await localNotifications.takeDue(now);
+    expect(notification).to.deep.include({id, at: now, expiresAt: now + LOCAL_NOTIFICATIONS_DEFAULT_TTL});
+    expect(notification.payload).to.include({
+      header: 'Title',
+      body: 'Body',
+      l: 'https://example.com/',
+      u: '{"a":1}',
+      pw_inbox: `${LOCAL_NOTIFICATION_INBOX_PREFIX}${id}`,
+      application: APPLICATION_CODE
+    });
+  });
+
+  describe('takeDue', () => {
+    it('takes due notifications once and keeps future ones', async () => {
+      const dueId = await localNotifications.schedule({title: 'Due', body: '', at: now - 1}, APPLICATION_CODE);
+      await localNotifications.schedule({title: 'Future', body: '', at: now + HOUR}, APPLICATION_CODE);
+
+      expect((await localNotifications.takeDue(now)).map(({id}) => id)).to.deep.equal([dueId]);
+      expect(await localNotifications.takeDue(now)).to.deep.equal([]);
+      expect(await localNotifications.getNextTime()).to.equal(now + HOUR);
+    });
+
+    it('drops expired notifications without showing', async () => {
+      await localNotifications.schedule({title: 'Expired', body: '', at: now - 2 * HOUR, ttl: HOUR}, APPLICATION_CODE);
+
+      expect(await localNotifications.takeDue(now)).to.deep.equal([]);
+      expect(await localNotifications.getNextTime()).to.equal(undefined);
+    });
+
+    it('takes snoozed payload at its time', async () => {
+      const payload = <INotificationPayload>{header: 'Snoozed', body: '', pw_snoozed: '1'};
+      await localNotifications.schedulePayload(payload, now + HOUR);
+
+      expect(await localNotifications.takeDue(now)).to.deep.equal([]);
+
+      const [notification] = await localNotifications.takeDue(now + HOUR);
+      expect(notification.payload).to.deep.equal(payload);
+    });
+  });
+
+  it('cancels notification', async () => {
+    const id = await localNotifications.schedule({title: 'Title', body: '', at: now}, APPLICATION_CODE);
+    await localNotifications.cancel(id);
+
+    expect(await localNotifications.takeDue(now)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,66 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {NotificationActions} from '../../src/modules/NotificationActions/NotificationActions';
+import {DEFAULT_SNOOZE_DELAY} from '../../src/modules/NotificationActions/NotificationActions.constants';
+import {LocalNotifications} from '../../src/modules/LocalNotifications/LocalNotifications';
+import {LOCAL_NOTIFICATIONS_MAX_WAIT} from '../../src/modules/LocalNotifications/LocalNotifications.constants';
+
+import {createKeyValueMock} from '../helpers';
+
+
+const APPLICATION_CODE = 'XXXXX-XXXXX';
+
+describe('NotificationActions', () => {
+  const now = Date.now();
+  const notificationOptions: any = {
+    title: 'Title',
+    body: 'Body',
+    openUrl: 'https://example.com/',
+    messageHash: 'hash',
+    customData: {a: 1},
+    buttons: [{title: 'Later', type: 'snooze'}]
+  };
+  let clock: sinon.SinonFakeTimers;
+  let localNotifications: LocalNotifications;
+  let actions: NotificationActions;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers(now);
+    localNotifications = new LocalNotifications(createKeyValueMock());
+    actions = new NotificationActions(<any>{}, localNotifications, <any>{appCode: Promise.resolve(APPLICATION_CODE)});
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('treats typed buttons except url as actions', () => {
+    expect(NotificationActions.isAction({title: 'Later', type: 'snooze'})).to.equal(true);
+    expect(NotificationActions.isAction({title: 'Open', type: 'url', url: '/'})).to.equal(false);
+    expect(NotificationActions.isAction({title: 'Open', url: '/'})).to.equal(false);
+    expect(NotificationActions.isAction()).to.equal(false);
+  });
+
+  it('snoozes notification as local one marked as snoozed', async () => {
+    await actions.run({title: 'Later', type: 'snooze'}, notificationOptions);
+
+    expect(await localNotifications.getNextTime()).to.equal(now + DEFAULT_SNOOZE_DELAY);
+    const [notification] = await localNotifications.takeDue(now + DEFAULT_SNOOZE_DELAY);
+    expect(notification.payload).to.include({
+      header: 'Title',
+      body: 'Body',
+      l: 'https://example.com/',
+      p: 'hash',
+      application: APPLICATION_CODE,
+      pw_snoozed: '1'
+    });
+  });
+
+  it('keeps snooze delay longer than the worker waits', async () => {
+    const delay = 2 * LOCAL_NOTIFICATIONS_MAX_WAIT;
+    await actions.run({title: 'Later', type: 'snooze', delay}, notificationOptions);
+
+    expect(await localNotifications.getNextTime()).to.equal(now + delay);
+  });
+});
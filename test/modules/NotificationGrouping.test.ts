@@ -0,0 +1,82 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import NotificationPayload from '../../src/models/NotificationPayload';
+import Params from '../../src/modules/data/Params';
+import {NotificationGrouping} from '../../src/modules/NotificationGrouping/NotificationGrouping';
+
+
+function createPayload(payload: {[key: string]: any}): NotificationPayload {
+  return new NotificationPayload(<INotificationPayload>{header: 'Title', body: 'Body', ...payload}, <Params><any>{});
+}
+
+describe('NotificationGrouping', () => {
+  const showOptions = <IShowNotificationOptions>{
+    body: 'Body',
+    icon: '',
+    requireInteraction: false,
+    tag: 'notificationCode',
+    data: <IShowNotificationOptionsData><any>{messageHash: 'hash'},
+    actions: [],
+    image: ''
+  };
+
+  let getNotifications: sinon.SinonStub;
+
+  beforeEach(() => {
+    getNotifications = sinon.stub().resolves([]);
+    (self as any).registration = {getNotifications};
+  });
+
+  afterEach(() => {
+    delete (self as any).registration;
+    sinon.restore();
+  });
+
+  it('shows every notification separately by default', async () => {
+    const grouping = new NotificationGrouping();
+
+    expect(await grouping.apply(createPayload({thread_id: 'thread'}), showOptions, 'Title')).to.equal(showOptions);
+  });
+
+  it('shows notification without thread separately', async () => {
+    const grouping = new NotificationGrouping({mode: 'replace'});
+
+    expect(await grouping.apply(createPayload({}), showOptions, 'Title')).to.equal(showOptions);
+  });
+
+  it('replaces notification of the same thread', async () => {
+    const grouping = new NotificationGrouping({mode: 'replace'});
+    const options = await grouping.apply(createPayload({thread_id: 'thread'}), showOptions, 'Title');
+
+    expect(options).to.deep.equal({...showOptions, tag: 'pw-group-thread', renotify: true});
+  });
+
+  it('groups notifications of the campaign by mode of the payload', async () => {
+    const grouping = new NotificationGrouping();
+    const options = await grouping.apply(createPayload({pwcid: 'campaign', group_mode: 'replace'}), showOptions, 'Title');
+
+    expect(options).to.include({tag: 'pw-group-campaign', renotify: true});
+  });
+
+  it('shows summary of the shown notifications of the thread', async () => {
+    getNotifications.resolves([{data: {groupCount: 2}}, {data: {}}]);
+    const grouping = new NotificationGrouping({mode: 'summary'});
+    const options = await grouping.apply(createPayload({thread_id: 'thread'}), showOptions, 'Title');
+
+    expect(getNotifications.calledOnceWith({tag: 'pw-group-thread'})).to.equal(true);
+    expect(options).to.deep.include({
+      tag: 'pw-group-thread',
+      renotify: true,
+      body: '4 new messages from Title',
+      data: {messageHash: 'hash', groupCount: 4}
+    });
+  });
+
+  it('shows the first notification of the thread as is in summary mode', async () => {
+    const grouping = new NotificationGrouping({mode: 'summary', summary: '{title}: {count}'});
+    const options = await grouping.apply(createPayload({thread_id: 'thread'}), showOptions, 'Title');
+
+    expect(options).to.deep.include({body: 'Body', data: {messageHash: 'hash', groupCount: 1}});
+  });
+});
@@ -0,0 +1,116 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {Session} from '../../src/modules/Session/Session';
+import {SESSION_ACTIVITY_THROTTLE} from '../../src/modules/Session/Session.constants';
+import {TKeyValue} from '../../src/storage';
+
+import {createKeyValueMock, flushPromises} from '../helpers';
+
+
+const IDLE_TIMEOUT = 60000;
+
+describe('Session', () => {
+  let clock: sinon.SinonFakeTimers;
+  let store: TKeyValue;
+  let handlers: {onStart: sinon.SinonSpy, onEnd: sinon.SinonSpy};
+  let session: Session;
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers({now: 1000000, toFake: ['setTimeout', 'clearTimeout', 'Date']});
+    store = createKeyValueMock();
+    handlers = {onStart: sinon.spy(), onEnd: sinon.spy()};
+    session = new Session(handlers, '', store);
+  });
+
+  afterEach(() => {
+    session.clear();
+    sinon.restore();
+  });
+
+  it('starts session on page load', () => {
+    session.start({idleTimeout: IDLE_TIMEOUT});
+
+    const current = session.getCurrent();
+    expect(current).to.include({startedAt: Date.now(), lastActivityAt: Date.now()});
+    expect(handlers.onStart.calledOnceWith({sessionId: current && current.id, startedAt: Date.now()})).to.equal(true);
+  });
+
+  it('continues session of other tab', () => {
+    const otherTab = new Session({onStart: sinon.spy(), onEnd: sinon.spy()}, '', store);
+    otherTab.start({idleTimeout: IDLE_TIMEOUT});
+
+    session.start({idleTimeout: IDLE_TIMEOUT});
+    otherTab.stop();
+
+    expect(handlers.onStart.called).to.equal(false);
+  });
+
+  it('ends session after idle timeout', async () => {
+    session.start({idleTimeout: IDLE_TIMEOUT});
+    const startedAt = Date.now();
+
+    clock.tick(IDLE_TIMEOUT);
+    await flushPromises();
+
+    expect(session.getCurrent()).to.equal(null);
+    expect(handlers.onEnd.calledOnce).to.equal(true);
+    expect(handlers.onEnd.firstCall.args[0]).to.include({startedAt, endedAt: startedAt, duration: 0});
+  });
+
+  it('postpones end by user activity', async () => {
+    session.start({idleTimeout: IDLE_TIMEOUT});
+    const startedAt = Date.now();
+
+    clock.tick(SESSION_ACTIVITY_THROTTLE);
+    window.dispatchEvent(new Event('click'));
+
+    clock.tick(IDLE_TIMEOUT - 1);
+    await flushPromises();
+    expect(handlers.onEnd.called).to.equal(false);
+
+    clock.tick(1);
+    await flushPromises();
+    expect(handlers.onEnd.firstCall.args[0]).to.include({
+      startedAt,
+      endedAt: startedAt + SESSION_ACTIVITY_THROTTLE,
+      duration: SESSION_ACTIVITY_THROTTLE
+    });
+  });
+
+  it('starts new session on activity after idle timeout', async () => {
+    session.start({idleTimeout: IDLE_TIMEOUT});
+    clock.tick(IDLE_TIMEOUT);
+    await flushPromises();
+
+    window.dispatchEvent(new Event('keydown'));
+
+    expect(session.getCurrent()).to.include({startedAt: Date.now()});
+    expect(handlers.onStart.calledTwice).to.equal(true);
+  });
+
+  it('ends session of closed tabs on the next visit', async () => {
+    session.start({idleTimeout: IDLE_TIMEOUT});
+    session.stop();
+
+    clock.tick(IDLE_TIMEOUT * 2);
+    session.start({idleTimeout: IDLE_TIMEOUT});
+    await flushPromises();
+
+    expect(handlers.onEnd.calledOnce).to.equal(true);
+    expect(handlers.onStart.calledTwice).to.equal(true);
+  });
+
+  it('is ended by one tab only', async () => {
+    const otherTabHandlers = {onStart: sinon.spy(), onEnd: sinon.spy()};
+    const otherTab = new Session(otherTabHandlers, '', store);
+    session.start({idleTimeout: IDLE_TIMEOUT});
+    otherTab.start({idleTimeout: IDLE_TIMEOUT});
+
+    clock.tick(IDLE_TIMEOUT);
+    await flushPromises();
+    otherTab.stop();
+
+    expect(handlers.onEnd.callCount + otherTabHandlers.onEnd.callCount).to.equal(1);
+  });
+});
@@ -0,0 +1,218 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {TabsLeader} from '../../src/modules/TabsLeader/TabsLeader';
+import {
+  KEY_TABS_LEADER,
+  TABS_LEADER_LOCK_NAME,
+  TABS_LEADER_LEASE_TIMEOUT,
+  TABS_LEADER_LEASE_RENEW_INTERVAL
+} from '../../src/modules/TabsLeader/TabsLeader.constants';
+import {TKeyValue} from '../../src/storage';
+
+import {createKeyValueMock, flushPromises} from '../helpers';
+
+
+/**
+ * Web Locks of one browser, lock is held until promise of the callback is settled or lock is released by test
+ */
+function createLocksMock() {
+  const holders: {[name: string]: boolean} = {};
+  const waiting: {[name: string]: Array<() => void>} = {};
+
+  const hold = (name: string, callback: (lock: any) => any) => {
+    holders[name] = true;
+    Promise.resolve(callback({name})).then(() => locks.release(name));
+  };
+
+  const locks = {
+    request(name: string, ...args: Array<any>): Promise<any> {
+      const [options, callback] = args.length > 1 ? args : [{}, args[0]];
+
+      if (holders[name]) {
+        if (options.ifAvailable) {
+          return Promise.resolve(callback(null));
+        }
+
+        waiting[name] = [...waiting[name] || [], () => hold(name, callback)];
+        return new Promise(() => undefined);
+      }
+
+      hold(name, callback);
+      return Promise.resolve();
+    },
+
+    release(name: string): void {
+      const [next, ...rest] = waiting[name] || [];
+      waiting[name] = rest;
+      holders[name] = !!next;
+
+      if (next) {
+        next();
+      }
+    }
+  };
+
+  return locks;
+}
+
+describe('TabsLeader', () => {
+  const createHandlers = () => ({
+    onElected: sinon.spy(),
+    onMessage: sinon.spy()
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe('by lease', () => {
+    let clock: sinon.SinonFakeTimers;
+    let store: TKeyValue;
+
+    beforeEach(() => {
+      clock = sinon.useFakeTimers({now: 1000000, toFake: ['setTimeout', 'clearTimeout', 'Date']});
+      store = createKeyValueMock();
+    });
+
+    it('takes lease when there is no leader', async () => {
+      const leader = new TabsLeader(createHandlers(), '', store);
+
+      expect(await leader.elect()).to.equal(true);
+      expect(leader.isLeader).to.equal(true);
+      expect((await store.get(KEY_TABS_LEADER)).expiresAt).to.equal(Date.now() + TABS_LEADER_LEASE_TIMEOUT);
+    });
+
+    it('is not elected while lease of other tab is valid', async () => {
+      const first = new TabsLeader(createHandlers(), '', store);
+      const second = new TabsLeader(createHandlers(), '', store);
+
+      expect(await first.elect()).to.equal(true);
+      expect(await second.elect()).to.equal(false);
+      expect(second.isLeader).to.equal(false);
+    });
+
+    it('prolongs own lease', async () => {
+      const leader = new TabsLeader(createHandlers(), '', store);
+      await leader.elect();
+
+      clock.tick(TABS_LEADER_LEASE_RENEW_INTERVAL);
+      await flushPromises();
+
+      expect((await store.get(KEY_TABS_LEADER)).expiresAt).to.equal(Date.now() + TABS_LEADER_LEASE_TIMEOUT);
+    });
+
+    it('takes expired lease of closed tab', async () => {
+      const handlers = createHandlers();
+      const leader = new TabsLeader(handlers, '', store);
+      await store.set(KEY_TABS_LEADER, {tabId: 'closed', expiresAt: Date.now() + TABS_LEADER_LEASE_RENEW_INTERVAL / 2});
+
+      expect(await leader.elect()).to.equal(false);
+
+      clock.tick(TABS_LEADER_LEASE_RENEW_INTERVAL);
+      await flushPromises();
+
+      expect(leader.isLeader).to.equal(true);
+      expect(handlers.onElected.calledOnce).to.equal(true);
+    });
+
+    it('releases lease on pagehide', async () => {
+      const leader = new TabsLeader(createHandlers(), '', store);
+      await leader.elect();
+
+      window.dispatchEvent(new Event('pagehide'));
+      await flushPromises();
+
+      expect(leader.isLeader).to.equal(false);
+      expect(await store.get(KEY_TABS_LEADER)).to.equal(undefined);
+    });
+
+    it('releases lease and stops renewal on release', async () => {
+      const leader = new TabsLeader(createHandlers(), '', store);
+      await leader.elect();
+
+      await leader.release();
+      clock.tick(TABS_LEADER_LEASE_RENEW_INTERVAL);
+      await flushPromises();
+
+      expect(leader.isLeader).to.equal(false);
+      expect(await store.get(KEY_TABS_LEADER)).to.equal(undefined);
+    });
+  });
+
+  describe('by lock', () => {
+    let locks: ReturnType<typeof createLocksMock>;
+
+    beforeEach(() => {
+      locks = createLocksMock();
+      (navigator as any).locks = locks;
+    });
+
+    afterEach(() => {
+      delete (navigator as any).locks;
+    });
+
+    it('elects the first tab only', async () => {
+      const firstHandlers = createHandlers();
+      const secondHandlers = createHandlers();
+      const first = new TabsLeader(firstHandlers);
+      const second = new TabsLeader(secondHandlers);
+
+      expect(await first.elect()).to.equal(true);
+      expect(await second.elect()).to.equal(false);
+      expect(firstHandlers.onElected.called).to.equal(false);
+      expect(secondHandlers.onElected.called).to.equal(false);
+    });
+
+    it('elects waiting tab when leader is closed', async () => {
+      const handlers = createHandlers();
+      const leader = new TabsLeader(createHandlers());
+      const waiting = new TabsLeader(handlers);
+      await leader.elect();
+      await waiting.elect();
+
+      locks.release(TABS_LEADER_LOCK_NAME);
+
+      expect(waiting.isLeader).to.equal(true);
+      expect(handlers.onElected.calledOnce).to.equal(true);
+    });
+
+    it('elects waiting tab when leader is released', async () => {
+      const handlers = createHandlers();
+      const leader = new TabsLeader(createHandlers());
+      const waiting = new TabsLeader(handlers);
+      await leader.elect();
+      await waiting.elect();
+
+      await leader.release();
+      await flushPromises();
+
+      expect(leader.isLeader).to.equal(false);
+      expect(waiting.isLeader).to.equal(true);
+      expect(handlers.onElected.calledOnce).to.equal(true);
+    });
+
+    it('is not elected after release by lock requested before', async () => {
+      const handlers = createHandlers();
+      const leader = new TabsLeader(createHandlers());
+      const released = new TabsLeader(handlers);
+      await leader.elect();
+      await released.elect();
+
+      await released.release();
+      await leader.release();
+      await flushPromises();
+
+      expect(released.isLeader).to.equal(false);
+      expect(handlers.onElected.called).to.equal(false);
+    });
+
+    it('elects leaders of instances separately', async () => {
+      const defaultLeader = new TabsLeader(createHandlers());
+      const namedLeader = new TabsLeader(createHandlers(), 'named');
+
+      expect(await defaultLeader.elect()).to.equal(true);
+      expect(await namedLeader.elect()).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import {Tags} from '../../src/modules/Tags/Tags';
+import {PushwooshTagError} from '../../src/modules/Tags/PushwooshTagError';
+import {KEY_TAGS_CACHE} from '../../src/modules/Tags/Tags.constants';
+import {TKeyValue} from '../../src/storage';
+
+import {createKeyValueMock} from '../helpers';
+
+
+describe('Tags', () => {
+  let store: TKeyValue;
+  let api: {setTags: sinon.SinonStub, getTags: sinon.SinonStub};
+  let tags: Tags;
+
+  const catchError = (promise: Promise<any>) => promise.then(() => null, (error) => error);
+
+  beforeEach(() => {
+    store = createKeyValueMock();
+    api = {
+      setTags: sinon.stub().resolves(),
+      getTags: sinon.stub().resolves({result: {Name: 'John', Age: 30, Interests: ['sport']}})
+    };
+    tags = new Tags(api, store);
+  });
+
+  describe('get', () => {
+    it('requests tags once', async () => {
+      await tags.get();
+      const result = await tags.get();
+
+      expect(result).to.deep.equal({Name: 'John', Age: 30, Interests: ['sport']});
+      expect(api.getTags.calledOnce).to.equal(true);
+    });
+
+    it('requests tags again on refresh', async () => {
+      await tags.get();
+      await tags.get(true);
+
+      expect(api.getTags.calledTwice).to.equal(true);
+    });
+  });
+
+  describe('set', () => {
+    it('sends all tags while they are not known', async () => {
+      const result = await tags.set({Name: 'John', Age: 30});
+
+      expect(result).to.deep.equal({Name: 'John', Age: 30});
+      expect(api.setTags.calledOnceWith({Name: 'John', Age: 30})).to.equal(true);
+    });
+
+    it('sends changed tags only', async () => {
+      await tags.get();
+      const result = await tags.set({Name: 'John', Age: 31, Interests: ['sport'], City: 'Paris'});
+
+      expect(result).to.deep.equal({Age: 31, City: 'Paris'});
+      expect(api.setTags.calledOnceWith({Age: 31, City: 'Paris'})).to.equal(true);
+      expect(await store.get(KEY_TAGS_CACHE)).to.deep.equal({Name: 'John', Age: 31, Interests: ['sport'], City: 'Paris'});
+    });
+
+    it('does not call api if nothing is changed', async () => {
+      await tags.get();
+      const result = await tags.set({Name: 'John', Unknown: null});
+
+      expect(result).to.deep.equal({});
+      expect(api.setTags.called).to.equal(false);
+    });
+
+    it('removes tag by null value', async () => {
+      await tags.get();
+      await tags.set({Name: null});
+
+      expect(api.setTags.calledOnceWith({Name: null})).to.equal(true);
+      expect(await store.get(KEY_TAGS_CACHE)).to.deep.equal({Age: 30, Interests: ['sport']});
+    });
+
+    it('rejects tags not matching schema', async () => {
+      tags.setSchema({Name: 'string', Age: 'integer'});
+
+      const typeError = await catchError(tags.set({Age: 30.5}));
+      const unknownError = await catchError(tags.set({City: 'Paris'}));
+
+      expect(typeError).to.be.instanceOf(PushwooshTagError).and.include({tagName: 'Age'});
+      expect(unknownError).to.be.instanceOf(PushwooshTagError).and.include({tagName: 'City'});
+      expect(api.setTags.called).to.equal(false);
+    });
+
+    it('allows to remove tag of any type', async () => {
+      tags.setSchema({Age: 'integer'});
+
+      expect(await tags.set({Age: null})).to.deep.equal({Age: null});
+    });
+  });
+
+  describe('operations', () => {
+    beforeEach(async () => {
+      await tags.get();
+    });
+
+    it('increments integer tag', async () => {
+      await tags.increment('Age', 2);
+
+      expect(api.setTags.calledOnceWith({Age: {operation: 'increment', value: 2}})).to.equal(true);
+      expect((await store.get(KEY_TAGS_CACHE)).Age).to.equal(32);
+    });
+
+    it('appends new values to list tag', async () => {
+      await tags.append('Interests', ['sport', 'music']);
+
+      expect(api.setTags.calledOnceWith({Interests: {operation: 'append', value: ['sport', 'music']}})).to.equal(true);
+      expect((await store.get(KEY_TAGS_CACHE)).Interests).to.deep.equal(['sport', 'music']);
+    });
+
+    it('removes values from list tag', async () => {
+      await tags.remove('Interests', ['sport']);
+
+      expect(api.setTags.calledOnceWith({Interests: {operation: 'remove', value: ['sport']}})).to.equal(true);
+      expect((await store.get(KEY_TAGS_CACHE)).Interests).to.deep.equal([]);
+    });
+
+    it('does not cache result of operation on unknown tag', async () => {
+      await tags.increment('Visits');
+
+      expect(api.setTags.calledOnceWith({Visits: {operation: 'increment', value: 1}})).to.equal(true);
+      expect((await store.get(KEY_TAGS_CACHE)).Visits).to.equal(undefined);
+    });
+
+    it('rejects invalid values and operations not matching schema', async () => {
+      tags.setSchema({Age: 'integer', Interests: 'list'});
+
+      const valueError = await catchError(tags.increment('Age', 1.5));
+      const typeError = await catchError(tags.append('Age', ['sport']));
+
+      expect(valueError).to.be.instanceOf(PushwooshTagError);
+      expect(typeError).to.be.instanceOf(PushwooshTagError);
+      expect(api.setTags.called).to.equal(false);
+    });
+  });
+});
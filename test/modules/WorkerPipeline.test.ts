@@ -0,0 +1,94 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Logger from '../../src/logger';
+import {WorkerPipeline} from '../../src/modules/WorkerPipeline/WorkerPipeline';
+import {WorkerPushContext} from '../../src/modules/WorkerPipeline/WorkerPipelineContext';
+import {
+  WORKER_STAGE_PUSH_RECEIVED,
+  WORKER_STAGE_BEFORE_SHOW
+} from '../../src/modules/WorkerPipeline/WorkerPipeline.constants';
+
+
+describe('WorkerPipeline', () => {
+  let pipeline: WorkerPipeline;
+  let context: WorkerPushContext;
+
+  beforeEach(() => {
+    sinon.stub(Logger, 'write');
+    pipeline = new WorkerPipeline();
+    context = new WorkerPushContext(<PushEvent><any>{}, {header: 'title'});
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('calls handlers of the stage in the order of adding', async () => {
+    const calls: Array<string> = [];
+    pipeline.use({
+      name: 'first',
+      [WORKER_STAGE_PUSH_RECEIVED]: async () => {
+        calls.push('first');
+      }
+    });
+    pipeline.use({
+      name: 'second',
+      [WORKER_STAGE_PUSH_RECEIVED]: () => {
+        calls.push('second');
+      },
+      [WORKER_STAGE_BEFORE_SHOW]: () => {
+        calls.push('beforeShow');
+      }
+    });
+
+    await pipeline.run(WORKER_STAGE_PUSH_RECEIVED, context);
+
+    expect(calls).to.deep.equal(['first', 'second']);
+  });
+
+  it('passes context changed by plugin to the next plugins', async () => {
+    pipeline.use({
+      name: 'replace',
+      [WORKER_STAGE_PUSH_RECEIVED]: (pushContext: WorkerPushContext) => {
+        pushContext.payload = {header: 'replaced'};
+        pushContext.skip();
+      }
+    });
+    const next = sinon.spy();
+    pipeline.use({name: 'next', [WORKER_STAGE_PUSH_RECEIVED]: next});
+
+    await pipeline.run(WORKER_STAGE_PUSH_RECEIVED, context);
+
+    expect(next.firstCall.args[0].payload).to.deep.equal({header: 'replaced'});
+    expect(context.isSkipped).to.equal(true);
+  });
+
+  it('logs failed plugin and calls the next ones', async () => {
+    const next = sinon.spy();
+    pipeline.use({
+      name: 'failed',
+      [WORKER_STAGE_PUSH_RECEIVED]: () => {
+        throw new Error('failed');
+      }
+    });
+    pipeline.use({name: 'next', [WORKER_STAGE_PUSH_RECEIVED]: next});
+
+    await pipeline.run(WORKER_STAGE_PUSH_RECEIVED, context);
+
+    expect(next.calledOnce).to.equal(true);
+    expect((<sinon.SinonStub>Logger.write).calledOnce).to.equal(true);
+  });
+
+  it('collects work to wait for', async () => {
+    const work = Promise.resolve();
+    pipeline.use({
+      name: 'work',
+      [WORKER_STAGE_PUSH_RECEIVED]: (pushContext: WorkerPushContext) => pushContext.waitUntil(work)
+    });
+
+    await pipeline.run(WORKER_STAGE_PUSH_RECEIVED, context);
+
+    expect(context.promises).to.deep.equal([work]);
+  });
+});
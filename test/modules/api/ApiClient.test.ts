@@ -0,0 +1,57 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Logger from '../../../src/logger';
+import ApiClient from '../../../src/modules/api/ApiClient';
+import MockTransport from '../../../src/modules/api/transports/MockTransport';
+import {setTransport} from '../../../src/modules/api/apiCall';
+import {getKeyValue} from '../../../src/storage';
+import {KEY_DEVICE_DATA_REMOVED} from '../../../src/constants';
+import {PushwooshDataRemovedError} from '../../../src/modules/api/PushwooshApiError';
+
+
+const NAMESPACE = 'api-client-test';
+
+describe('ApiClient', () => {
+  const store = getKeyValue(NAMESPACE);
+  const transport = new MockTransport();
+  const apiClient = new ApiClient(store);
+
+  before(() => {
+    setTransport(transport, NAMESPACE);
+  });
+
+  beforeEach(async () => {
+    sinon.stub(Logger, 'write');
+    transport.reset();
+    await store.clear();
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('gets inbox messages by transport of the instance', async () => {
+    const response = {messages: [], deleted: [], new_inbox: 0, next: ''};
+    transport.setResponse('getInboxMessages', response);
+
+    const request = <IGetInboxMessagesRequest><any>{hwid: 'hwid', application: 'XXXXX-XXXXX', count: 10};
+    expect(await apiClient.getInboxMessages(request)).to.deep.equal(response);
+    expect(transport.requests[0].body).to.deep.equal({request});
+  });
+
+  it('rejects by error of Pushwoosh', async () => {
+    transport.setStatusCode('getInApps', 210, 'Argument error');
+
+    const error = await apiClient.getInApps(<IGetInAppsRequest><any>{}).then(() => null, (callError) => callError);
+    expect(error).to.include({statusCode: 210, statusMessage: 'Argument error'});
+  });
+
+  it('rejects without sending when device data is removed', async () => {
+    await store.set(KEY_DEVICE_DATA_REMOVED, 1);
+
+    const error = await apiClient.inboxStatus(<IInboxStatusRequest><any>{}).then(() => null, (callError) => callError);
+    expect(error).to.be.instanceOf(PushwooshDataRemovedError);
+    expect(transport.requests).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,95 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Logger from '../../../src/logger';
+import Params from '../../../src/modules/data/Params';
+import MockTransport from '../../../src/modules/api/transports/MockTransport';
+import doApiCall, {setTransport} from '../../../src/modules/api/apiCall';
+import {ApiInterceptors} from '../../../src/modules/api/ApiInterceptors';
+import {getKeyValue} from '../../../src/storage';
+
+
+const NAMESPACE = 'api-interceptors-test';
+const OTHER_NAMESPACE = 'api-interceptors-other-test';
+
+describe('ApiInterceptors', () => {
+  const paramsModule = new Params(undefined, getKeyValue(NAMESPACE));
+  const otherParamsModule = new Params(undefined, getKeyValue(OTHER_NAMESPACE));
+  const transport = new MockTransport();
+  const interceptors = ApiInterceptors.getInstance(NAMESPACE);
+  let added: Array<TApiInterceptor>;
+
+  const add = (interceptor: TApiInterceptor) => {
+    added.push(interceptor);
+    interceptors.add(interceptor);
+  };
+
+  before(() => {
+    setTransport(transport, NAMESPACE);
+    setTransport(transport, OTHER_NAMESPACE);
+  });
+
+  beforeEach(() => {
+    sinon.stub(Logger, 'write');
+    transport.reset();
+    added = [];
+  });
+
+  afterEach(() => {
+    added.forEach((interceptor) => interceptors.remove(interceptor));
+    sinon.restore();
+  });
+
+  it('passes call through interceptors in the order of adding', async () => {
+    const log: Array<string> = [];
+    add(async (context, next) => {
+      log.push('first request');
+      await next();
+      log.push('first response');
+    });
+    add(async (context, next) => {
+      log.push('second request');
+      await next();
+      log.push('second response');
+    });
+
+    await doApiCall('getTags', {}, paramsModule);
+
+    expect(log).to.deep.equal(['first request', 'second request', 'second response', 'first response']);
+  });
+
+  it('sends request and headers changed by interceptor and returns changed response', async () => {
+    transport.setResponse('postEvent', {code: 'XXX'});
+    add(async (context, next) => {
+      context.request = {...context.request, email: undefined};
+      context.headers['X-Trace'] = 'trace';
+      await next();
+      context.response = {...context.response, traced: true};
+    });
+
+    const response = await doApiCall('postEvent', {event: 'Login', email: 'user@example.com'}, paramsModule);
+
+    expect(transport.requests[0].body.request).to.deep.equal({event: 'Login', email: undefined});
+    expect(transport.requests[0].headers).to.deep.equal({'X-Trace': 'trace'});
+    expect(response).to.deep.equal({code: 'XXX', traced: true});
+  });
+
+  it('fails call rejected by interceptor without sending it', async () => {
+    add(() => Promise.reject(new Error('blocked')));
+
+    const error = await doApiCall('getTags', {}, paramsModule).then(() => null, (callError) => callError);
+
+    expect(error.message).to.equal('blocked');
+    expect(transport.requests).to.deep.equal([]);
+  });
+
+  it('does not intercept calls of other instances', async () => {
+    const interceptor = sinon.spy((context: IApiInterceptorContext, next: () => Promise<void>) => next());
+    add(interceptor);
+
+    await doApiCall('getTags', {}, otherParamsModule);
+
+    expect(interceptor.called).to.equal(false);
+    expect(transport.requests).to.have.lengthOf(1);
+  });
+});
@@ -0,0 +1,90 @@
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+
+import Logger from '../../../src/logger';
+import Params from '../../../src/modules/data/Params';
+import MockTransport from '../../../src/modules/api/transports/MockTransport';
+import doApiCall, {setTransport, getTransport} from '../../../src/modules/api/apiCall';
+import {getKeyValue} from '../../../src/storage';
+import {
+  PushwooshNetworkError,
+  PushwooshHttpError,
+  PushwooshStatusCodeError,
+  isRetryableApiError
+} from '../../../src/modules/api/PushwooshApiError';
+
+
+const NAMESPACE = 'api-call-test';
+const API_URL = 'https://example.pushwoosh.com/json/1.3/';
+
+describe('apiCall', () => {
+  const store = getKeyValue(NAMESPACE);
+  const paramsModule = new Params(undefined, store);
+  let transport: MockTransport;
+
+  beforeEach(async () => {
+    sinon.stub(Logger, 'write');
+    transport = new MockTransport();
+    setTransport(transport, NAMESPACE);
+
+    await store.clear();
+    await paramsModule.setApiUrl(API_URL);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('sends request by transport of the instance', async () => {
+    transport.setResponse('getTags', {result: {Language: 'en'}});
+
+    const response = await doApiCall('getTags', {hwid: 'hwid'}, paramsModule);
+
+    expect(response).to.deep.equal({result: {Language: 'en'}});
+    expect(transport.requests).to.deep.equal([{
+      methodName: 'getTags',
+      url: `${API_URL}getTags`,
+      body: {request: {hwid: 'hwid'}},
+      headers: {}
+    }]);
+  });
+
+  it('keeps default transport of other instances', () => {
+    expect(getTransport(NAMESPACE)).to.equal(transport);
+    expect(getTransport()).not.to.equal(transport);
+  });
+
+  describe('errors', () => {
+    const getError = (methodName: string) => doApiCall(methodName, {}, paramsModule)
+      .then(() => null, (error) => error);
+
+    it('rejects with retryable network error', async () => {
+      transport.setNetworkError('pushStat');
+      const error = await getError('pushStat');
+
+      expect(error).to.be.instanceOf(PushwooshNetworkError);
+      expect(error).to.include({code: 'network', methodName: 'pushStat'});
+      expect(isRetryableApiError(error)).to.equal(true);
+    });
+
+    it('rejects with http error retryable for server errors only', async () => {
+      transport.setHttpStatus('setTags', 503);
+      transport.setHttpStatus('getTags', 404);
+      const serverError = await getError('setTags');
+      const clientError = await getError('getTags');
+
+      expect(serverError).to.be.instanceOf(PushwooshHttpError).and.include({status: 503});
+      expect(isRetryableApiError(serverError)).to.equal(true);
+      expect(clientError).to.be.instanceOf(PushwooshHttpError).and.include({status: 404});
+      expect(isRetryableApiError(clientError)).to.equal(false);
+    });
+
+    it('rejects with permanent error of Pushwoosh status code', async () => {
+      transport.setStatusCode('postEvent', 210, 'Argument error');
+      const error = await getError('postEvent');
+
+      expect(error).to.be.instanceOf(PushwooshStatusCodeError).and.include({statusCode: 210, statusMessage: 'Argument error'});
+      expect(isRetryableApiError(error)).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import {expect} from 'chai';
+
+import {getKeyValue, keyValue} from '../src/storage';
+
+
+describe('storage', () => {
+  const named = getKeyValue('storage-test');
+
+  beforeEach(async () => {
+    await named.clear();
+    await keyValue.set('storage-test.key', undefined);
+  });
+
+  it('keeps keys of the named instance apart from the default one', async () => {
+    await keyValue.set('storage-test.key', 'default');
+    await named.set('storage-test.key', 'named');
+
+    expect(await keyValue.get('storage-test.key')).to.equal('default');
+    expect(await named.get('storage-test.key')).to.equal('named');
+  });
+
+  it('returns only own keys without prefix', async () => {
+    await named.set('storage-test.key', 'named');
+
+    const defaultValues = await keyValue.getAll();
+    const namedValues = await named.getAll();
+
+    expect(namedValues).to.deep.equal({'storage-test.key': 'named'});
+    expect(Object.keys(defaultValues).filter((key) => key.indexOf('/') !== -1)).to.be.empty;
+  });
+
+  it('clears only keys of the namespace', async () => {
+    await keyValue.set('storage-test.key', 'default');
+    await named.set('storage-test.key', 'named');
+
+    await named.clear();
+
+    expect(await named.get('storage-test.key')).to.equal(undefined);
+    expect(await keyValue.get('storage-test.key')).to.equal('default');
+  });
+});
@@ -0,0 +1,34 @@
+// Mocha setup: compile TypeScript on the fly and emulate browser page environment
+require('ts-node').register({
+  transpileOnly: true
+});
+
+// defined by webpack in builds
+global.__VERSION__ = require('./package.json').version;
+
+// html and css assets are loaded as strings by webpack loaders
+['.html', '.css'].forEach((extension) => {
+  require.extensions[extension] = (module, filename) => {
+    module.exports = require('fs').readFileSync(filename, 'utf8');
+  };
+});
+
+// IndexedDB is set to node global before window is defined
+require('fake-indexeddb/build/global');
+
+const {JSDOM} = require('jsdom');
+
+const {window} = new JSDOM('<!DOCTYPE html><html><head></head><body></body></html>', {
+  url: 'https://example.com/'
+});
+
+global.window = window;
+global.document = window.document;
+global.navigator = window.navigator;
+global.localStorage = window.localStorage;
+global.location = window.location;
+global.self = window;
+global.Event = window.Event;
+
+// there is no BroadcastChannel in jsdom, node one keeps process alive until it is closed
+delete global.BroadcastChannel;
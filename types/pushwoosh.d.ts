@@ -206,16 +206,18 @@ type TNotificationButton = {
 };
 
 type TServiceWorkerClientExtended = ServiceWorkerClient & {
-  focus: () => void
+  focus: () => void,
+  focused: boolean,
+  navigate: (url: string) => Promise<any>
 };
 
 type TDoPushwooshMethod = (type: string, params: any) => Promise<any>;
 
-type PWInput = PushOnReadyCallback | PushInitCallback | PushEventCallback;
+type PWInput = PushOnReadyCallback | PushInitCallback | PushEventCallback | PushApiInterceptorCallback;
 type PushOnReadyCallback = HandlerFn;
 type PushInitCallback = ['init', IInitParams];
 type PushEventCallback = [PWEvent, HandlerFn];
-type PWEvent = 'onReady' | 'onSubscribe' | 'onUnsubscribe' | 'onRegister' | 'onSWInitError'
+type PWEvent = 'onReady' | 'onSubscribe' | 'onUnsubscribe' | 'onRegister' | 'onSWInitError' | 'onInitError' | 'onConsentChange' | 'onUserChanged' | 'onSessionStart' | 'onSessionEnd'
   | 'onPermissionPrompt' | 'onPermissionDenied' | 'onPermissionGranted'
   | 'onNotificationClick' | 'onPushDelivery' | 'onNotificationClose'
   | 'onChangeCommunicationEnabled';
@@ -34,6 +34,8 @@ interface IInboxMessage {
   action_type: TInboxActionType;
   action_params: string; // json string with IInboxMessageActionParams
   status: TInboxMessageStatus;
+  hash?: string;  // push message hash
+  namespace?: string;  // namespace of Pushwoosh instance, empty for default instance
 }
 
 // Inbox API types
@@ -5,6 +5,8 @@
 /// <reference path="custom.d.ts" />
 /// <reference path="notification.d.ts" />
 /// <reference path="inbox.d.ts" />
+/// <reference path="inbox_widget.d.ts" />
 /// <reference path="in-app.d.ts" />
 /// <reference path="storage.d.ts" />
+/// <reference path="transport.d.ts" />
 /// <reference path="modules/platformChecker.d.ts" />
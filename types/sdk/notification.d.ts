@@ -17,6 +17,11 @@ interface INotificationPayload {
   buttons?: string;   // button json string. XMPP Chrome Sender payload contains buttons as string
   pw_inbox?: string;  // inbox code
   inbox_params?: string;  // inbox params json INotificationPayloadInboxParams
+  application?: string;  // application code, used for routing message to named Pushwoosh instance
+  click_routing?: string;  // json IClickRoutingParams, overrides clickRouting init param
+  thread_id?: string;  // notifications of the same thread are grouped, campaign id is used by default
+  group_mode?: TNotificationGroupingMode;  // overrides notificationGrouping init param mode
+  pw_snoozed?: string;  // "1" for notification shown again by snooze button, its statistics is sent already
   [key: string]: any;  // root params
 }
 
@@ -25,10 +30,17 @@ interface IChromeNotificationPayload {
   from: string;  // ??
 }
 
+type TNotificationButtonType = 'url' | 'postEvent' | 'setTags' | 'dismiss' | 'snooze' | 'markInboxRead';
+
 interface INotificationButton {
   title: string;
   action?: string;
   url?: string;
+  type?: TNotificationButtonType;  // url by default, other types run in service worker without opening window
+  event?: string;  // postEvent event name
+  attributes?: {[key: string]: any};  // postEvent attributes
+  tags?: {[key: string]: any};  // setTags tags
+  delay?: number;  // snooze delay, ms, longer than LOCAL_NOTIFICATIONS_MAX_WAIT is shown on the next visit of the site
 }
 
 interface INotificationOptionsPayload {
@@ -51,13 +63,20 @@ interface IShowNotificationOptionsData {
   image: string;
   campaignCode: string;
   inboxId: string;
+  namespace: string;  // namespace of Pushwoosh instance the message is routed to
+  clickRouting?: IClickRoutingParams;
+  url: string;
+  messageHash: string;
+  customData: {[key: string]: any};
+  snoozed: boolean;  // shown again by snooze button
+  groupCount?: number;  // count of grouped messages in summary mode
 }
 
 interface IShowNotificationOptions {
   body: string;
   icon: string;
   requireInteraction: boolean;  // show close button
-  tag: string;
+  tag: string;  // message code or group tag of the thread
   data: IShowNotificationOptionsData;
   actions: Array<INotificationButton>;
   image: string;
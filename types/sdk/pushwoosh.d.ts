@@ -1,7 +1,8 @@
 type PushwooshApiResponse = {
   status_code: number,
   status_message: string,
-  response?: any
+  response?: any,
+  base_url?: string
 };
 
 type TPWPermission = 'denied' | 'granted' | 'default';
@@ -24,10 +25,67 @@ interface TPWAPIParams extends IPWDriverAPIParams {
   userId?: string;
 }
 
-interface TPWLastOpenMessage {
-  messageHash?: string,
-  expiry: number,
-  url?: string
+interface ILocalNotificationParams {
+  title: string;
+  body: string;
+  at: number | Date;  // time of showing, ms timestamp or date
+  ttl?: number;  // ms after the time of showing, overdue notification is dropped after it, 24 hours by default
+  url?: string;  // opened on click, "/" by default
+  icon?: string;
+  image?: string;
+  customData?: {[key: string]: any};
+  inbox?: boolean;  // put message to inbox on showing
+}
+
+type TNotificationGroupingMode = 'none' | 'replace' | 'summary';
+
+interface INotificationGroupingParams {
+  mode?: TNotificationGroupingMode;  // default none
+  summary?: string;  // body of summary mode notification, {count} and {title} are replaced
+}
+
+type TClickRoutingMode = 'exact' | 'focusAny' | 'prefix' | 'regex' | 'postMessage';
+
+interface IClickRoutingParams {
+  mode?: TClickRoutingMode;  // default exact
+  pattern?: string;  // url prefix for prefix mode, regular expression for regex mode
+}
+
+type TApplicationOpenPolicy = 'interval' | 'session' | 'never';
+
+interface ISessionParams {
+  idleTimeout?: number;  // ms without user activity in all tabs ending the session, default 30 minutes
+  applicationOpen?: TApplicationOpenPolicy;  // when applicationOpen is sent, default interval
+  applicationOpenInterval?: number;  // ms, min period of applicationOpen calls for interval policy, default 1 hour
+}
+
+interface ISessionStartPayload {
+  sessionId: string;
+  startedAt: number;  // ms
+}
+
+interface ISessionEndPayload extends ISessionStartPayload {
+  endedAt: number;  // ms, time of the last user activity
+  duration: number;  // ms
+}
+
+type TGoalAttributionModel = 'last_touch' | 'first_touch';
+type TGoalAttributionSource = 'push' | 'inbox' | 'inapp';
+
+interface IGoalAttributionParams {
+  model?: TGoalAttributionModel;  // default last_touch
+  window?: number;  // ms, default 24 hours
+  sources?: Array<TGoalAttributionSource>;  // opens taken into account, default all
+}
+
+// Web Locks API, not in typescript dom lib yet
+interface ILockManager {
+  request(name: string, callback: (lock: any) => Promise<any>): Promise<any>;
+  request(name: string, options: {ifAvailable?: boolean}, callback: (lock: any) => Promise<any>): Promise<any>;
+}
+
+interface Navigator {
+  locks?: ILockManager;
 }
 
 interface PushManager {
@@ -143,6 +201,16 @@ interface IInitParams {
   userId?: string;
   scope?: string;
   tags?: {[key: string]: any};
+  transport?: ITransport;  // transport of api calls of the instance, service worker uses the default one
+  batching?: IBatchingParams;
+  consentRequired?: boolean;  // no requests, IndexedDB writes and service worker registration until grantConsent() call
+  tagsSchema?: ITagsSchema;  // types of the known tags for Pushwoosh.tags validation
+  eventsSchema?: IEventsSchema;  // known events and their attributes for postEvent validation
+  eventsValidation?: TEventsValidationMode;
+  goalAttribution?: IGoalAttributionParams;
+  session?: ISessionParams;
+  clickRouting?: IClickRoutingParams;  // default routing of notification clicks, message can override it
+  notificationGrouping?: INotificationGroupingParams;  // default grouping of notifications, message can override it
   driversSettings?: {
     worker?: {
       serviceWorkerUrl?: string;
@@ -169,6 +237,36 @@ interface IInitParams {
   }
 }
 
+type TTagType = 'integer' | 'string' | 'list' | 'boolean' | 'date' | 'price' | 'version';
+
+interface ITagsSchema {
+  [name: string]: TTagType;
+}
+
+type TEventAttributeType = 'integer' | 'string' | 'list' | 'boolean' | 'date' | 'price';
+
+interface IEventAttributeSchema {
+  type: TEventAttributeType;
+  required?: boolean;
+}
+
+interface IEventSchema {
+  attributes?: {[name: string]: IEventAttributeSchema};
+}
+
+interface IEventsSchema {
+  [event: string]: IEventSchema;
+}
+
+type TEventsValidationMode = 'reject' | 'warn';  // reject invalid events in development, only warn in production
+
+// events are sent by separate postEvent calls, Pushwoosh API has no method for several events
+interface IBatchingParams {
+  enable?: boolean;
+  delay?: number;  // ms, time window to collect setTags and postEvent calls
+  maxSize?: number;  // max count of collected events, they are sent immediately when reached
+}
+
 interface IInitParamsWithDefaults extends IInitParams {
   autoSubscribe: boolean;
   pushwooshUrl: string;
@@ -220,7 +318,11 @@ interface INotificationOptions extends ServiceWorkerNotificationOptions {
   code?: string,
   buttons?: INotificationButton[],
   customData?: {[key: string]: any},
-  campaignCode?: string
+  campaignCode?: string,
+  namespace?: string,
+  clickRouting?: IClickRoutingParams,
+  snoozed?: boolean,  // shown again by snooze button
+  button?: INotificationButton  // clicked button
 }
 
 type TPWCanWaitCallback = (f: any) => Promise<any> | any;
@@ -228,6 +330,7 @@ type TPWCanWaitCallback = (f: any) => Promise<any> | any;
 interface IWorkerPushwooshGlobal {
   push(listener: ['onPush', TPWCanWaitCallback]): void;
   getListeners(eventName: string): TPWCanWaitCallback[];
+  use(plugin: any): any;
   api: any;
   initApi: any;
 }
@@ -239,6 +342,16 @@ interface Window {
 interface IPWBroadcastClientsParams {
   type: string;
   payload: any;
+  namespace?: string;  // namespace of Pushwoosh instance the message is sent for
+}
+
+interface IResetParams {
+  unregisterWorker?: boolean;  // unregister service worker, otherwise only push subscription is removed
+  keepConsent?: boolean;  // keep consent granted for consentRequired init mode, otherwise it is revoked
+}
+
+interface IPushwooshOptions {
+  namespace?: string;  // name of instance, separates its storage keys, params, inbox and events from other instances
 }
 
 type TWriteType = 'error' | 'apirequest' | 'info';
@@ -257,6 +370,8 @@ type ListenerFn = (...args: Array<any>) => void | Promise<any>;
 
 type HandlerFn = (api: any, params?: any) => any;
 
+type TDisposer = () => void;  // removes added callback
+
 type TWorkerDriverParams = {
   eventEmitter?: any,
   scope?: string,
@@ -275,20 +390,27 @@ type TWorkerSafariDriverParams = {
 
 type TServiceWorkerClientExtended = ServiceWorkerClient & {
   focus: () => void,
-  focused: boolean
+  focused: boolean,
+  navigate: (url: string) => Promise<any>
 };
 
 type TDoPushwooshMethod = (type: string, params: any) => Promise<any>;
 
-type PWInput = PushOnReadyCallback | PushInitCallback | PushEventCallback;
+type PWInput = PushOnReadyCallback | PushInitCallback | PushEventCallback | PushApiInterceptorCallback;
 type PushOnReadyCallback = HandlerFn;
 type PushInitCallback = ['init', IInitParams];
 type PushEventCallback = [PWEvent, HandlerFn];
+type PushApiInterceptorCallback = ['addApiInterceptor', TApiInterceptor];
 type PWEvent = 'onReady'
   | 'onSubscribe'
   | 'onUnsubscribe'
   | 'onRegister'
   | 'onSWInitError'
+  | 'onInitError'
+  | 'onConsentChange'
+  | 'onUserChanged'
+  | 'onSessionStart'
+  | 'onSessionEnd'
   | 'onPermissionPrompt'
   | 'onPermissionDenied'
   | 'onPermissionGranted'
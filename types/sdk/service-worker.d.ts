@@ -44,6 +44,16 @@ interface NotificationEvent extends ExtendableEvent {
     action: string;
 }
 
+interface SyncEvent extends ExtendableEvent {
+    readonly tag: string;
+    readonly lastChance: boolean;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+    readonly data: any;
+    readonly source: ServiceWorkerClient | null;
+}
+
 interface PushEvent extends ExtendableEvent {
     readonly data: PushMessageData;
 }
@@ -2,9 +2,11 @@ type TKeyValueStoreName = 'keyValue';
 type TMessageLogStoreName = 'messages';
 type TMainLogStoreName = 'log';
 type TInboxMessagesStoreName = 'inboxMessages';
+type TApiQueueStoreName = 'apiQueue';
 type TSdkStoreName =  TKeyValueStoreName
   | TMessageLogStoreName
   | TInboxMessagesStoreName
+  | TApiQueueStoreName
   | TMainLogStoreName;
 
 type TMigrationType = (database: IDBDatabase) => void;
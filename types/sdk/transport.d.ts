@@ -0,0 +1,28 @@
+interface ITransportRequest {
+  methodName: string;  // Pushwoosh API method name
+  url: string;  // full method url
+  body: {request: any};  // JSON body
+  headers?: {[key: string]: string};  // additional HTTP headers
+}
+
+interface ITransportResponse {
+  status: number;  // HTTP status code
+  statusText?: string;
+  body?: PushwooshApiResponse;  // parsed JSON body
+}
+
+// Sends Pushwoosh JSON API requests. Rejects only on network failures
+interface ITransport {
+  send(request: ITransportRequest): Promise<ITransportResponse>;
+}
+
+interface IApiInterceptorContext {
+  methodName: string;  // Pushwoosh API method name
+  request: any;  // request payload
+  headers: {[key: string]: string};  // additional HTTP headers
+  response?: any;  // "response" field of Pushwoosh API response. Set after next() resolved
+}
+
+// Api call middleware of Pushwoosh instance. Call "next" for pass call to the next interceptor,
+// "next" rejects with the call error. Not applied to service worker calls
+type TApiInterceptor = (context: IApiInterceptorContext, next: () => Promise<void>) => Promise<void> | void;
@@ -16,6 +16,7 @@ function copyPublicTypes() {
   });
 }
 
+// "main" of package.json, "module" is built by tsc to keep ES modules tree-shakeable (npm run build:esm)
 module.exports = {
   mode: 'production',
   devtool: 'source-map',